@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as core from '@actions/core'
+import {
+  explainApiError,
+  getRetryDelay,
+  isTransientError,
+  requestWithRetry,
+  withRetry
+} from './api'
+
+vi.mock('@actions/core')
+
+function createApiError(status: number, message: string, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(message), { status, response: { headers } })
+}
+
+describe('api', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('isTransientError', () => {
+    it('should treat server errors, rate limits and dropped connections as transient', () => {
+      expect(isTransientError(createApiError(502, 'Bad Gateway'))).toBe(true)
+      expect(isTransientError(createApiError(429, 'Too Many Requests'))).toBe(true)
+      expect(isTransientError(createApiError(403, 'forbidden', { 'x-ratelimit-remaining': '0' }))).toBe(true)
+      expect(isTransientError(createApiError(403, 'You have exceeded a secondary rate limit'))).toBe(true)
+      expect(isTransientError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true)
+    })
+
+    it('should not retry client errors', () => {
+      expect(isTransientError(createApiError(403, 'Resource not accessible by integration'))).toBe(false)
+      expect(isTransientError(createApiError(404, 'Not Found'))).toBe(false)
+      expect(isTransientError(new Error('API Error'))).toBe(false)
+    })
+  })
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially', () => {
+      const error = createApiError(500, 'Server Error')
+
+      expect(getRetryDelay(error, 1, 1000)).toBe(1000)
+      expect(getRetryDelay(error, 3, 1000)).toBe(4000)
+    })
+
+    it('should honor retry-after and rate limit reset headers', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1_000_000)
+
+      expect(getRetryDelay(createApiError(429, 'slow down', { 'retry-after': '7' }), 1)).toBe(7000)
+      expect(getRetryDelay(createApiError(403, 'rate limit', {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': '1030'
+      }), 1)).toBe(30_000)
+
+      vi.restoreAllMocks()
+    })
+  })
+
+  describe('withRetry', () => {
+    it('should retry transient failures until the operation succeeds', async () => {
+      const sleep = vi.fn().mockResolvedValue(undefined)
+      const operation = vi.fn()
+        .mockRejectedValueOnce(createApiError(503, 'Service Unavailable'))
+        .mockRejectedValueOnce(createApiError(502, 'Bad Gateway'))
+        .mockResolvedValueOnce('ok')
+
+      await expect(withRetry(operation, 'list files', { sleep, baseDelayMs: 10 })).resolves.toBe('ok')
+
+      expect(operation).toHaveBeenCalledTimes(3)
+      expect(sleep.mock.calls).toEqual([[10], [20]])
+      expect(core.warning).toHaveBeenCalledWith('Failed to list files (Service Unavailable); retrying in 1s')
+    })
+
+    it('should give up after the last attempt', async () => {
+      const sleep = vi.fn().mockResolvedValue(undefined)
+      const operation = vi.fn().mockRejectedValue(createApiError(500, 'Server Error'))
+
+      await expect(withRetry(operation, 'list files', { sleep, attempts: 3 })).rejects.toThrow('Server Error')
+      expect(operation).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry permanent failures', async () => {
+      const sleep = vi.fn()
+      const operation = vi.fn().mockRejectedValue(createApiError(404, 'Not Found'))
+
+      await expect(withRetry(operation, 'list files', { sleep })).rejects.toThrow('Not Found')
+      expect(operation).toHaveBeenCalledTimes(1)
+      expect(sleep).not.toHaveBeenCalled()
+    })
+
+    it('should not wait for a rate limit that resets too late', async () => {
+      const sleep = vi.fn()
+      const operation = vi.fn().mockRejectedValue(createApiError(429, 'Too Many Requests', { 'retry-after': '3600' }))
+
+      await expect(withRetry(operation, 'list files', { sleep })).rejects.toThrow('Too Many Requests')
+      expect(sleep).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('explainApiError', () => {
+    const options = {
+      action: 'list pull request files',
+      permission: 'pull-requests: read',
+      notFound: 'Pull request #7 was not found in owner/repo'
+    }
+
+    it('should explain missing permissions', () => {
+      const error = explainApiError(createApiError(403, 'Resource not accessible by integration'), options) as Error
+
+      expect(error.message).toBe(
+        'The GitHub token is not allowed to list pull request files (Resource not accessible by integration); ' +
+        'grant the workflow the "pull-requests: read" permission'
+      )
+    })
+
+    it('should explain rejected tokens, rate limits and missing resources', () => {
+      expect((explainApiError(createApiError(401, 'Bad credentials'), options) as Error).message)
+        .toBe('GitHub rejected the token while trying to list pull request files; check the github-token input')
+      expect((explainApiError(createApiError(429, 'Too Many Requests'), options) as Error).message)
+        .toBe('GitHub API rate limit exceeded while trying to list pull request files: Too Many Requests')
+      expect((explainApiError(createApiError(404, 'Not Found'), options) as Error).message)
+        .toBe('Pull request #7 was not found in owner/repo (Not Found)')
+    })
+
+    it('should return other errors unchanged', () => {
+      const error = new Error('API Error')
+
+      expect(explainApiError(error, options)).toBe(error)
+    })
+  })
+
+  describe('requestWithRetry', () => {
+    it('should explain the final error', async () => {
+      const operation = vi.fn().mockRejectedValue(createApiError(403, 'Resource not accessible by integration'))
+
+      await expect(requestWithRetry(operation, { action: 'compare pushed commits', permission: 'contents: read' }))
+        .rejects.toThrow('grant the workflow the "contents: read" permission')
+    })
+  })
+})
@@ -0,0 +1,156 @@
+import { log } from "./log";
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+// Rate limits that reset later than this are reported instead of waited out
+const MAX_DELAY_MS = 60_000;
+const TRANSIENT_ERROR_CODES: string[] = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"];
+
+export interface RequestOptions {
+  // What the request does, e.g. "list pull request files"
+  action: string;
+  // Workflow permission the request needs, e.g. "pull-requests: read"
+  permission: string;
+  // Message to report when the API answers 404
+  notFound?: string;
+}
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface ApiError {
+  status?: number;
+  code?: string;
+  message: string;
+  headers: Record<string, string | undefined>;
+}
+
+function toApiError(error: unknown): ApiError {
+  const value = (typeof error === "object" && error !== null ? error : {}) as {
+    status?: unknown;
+    code?: unknown;
+    response?: { headers?: Record<string, string | undefined> };
+  };
+
+  return {
+    status: typeof value.status === "number" ? value.status : undefined,
+    code: typeof value.code === "string" ? value.code : undefined,
+    message: error instanceof Error ? error.message : String(error),
+    headers: value.response?.headers ?? {},
+  };
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  const { status, message, headers } = toApiError(error);
+
+  return status === 429 || (status === 403 && (headers["x-ratelimit-remaining"] === "0" || /rate limit/i.test(message)));
+}
+
+export function isTransientError(error: unknown): boolean {
+  const { status, code } = toApiError(error);
+
+  if (status !== undefined) {
+    return status >= 500 || isRateLimitError(error);
+  }
+
+  return code !== undefined && TRANSIENT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Returns how long to wait before retrying, preferring the delay the API asks
+ * for in its retry-after or rate limit reset headers.
+ */
+export function getRetryDelay(error: unknown, attempt: number, baseDelayMs: number = BASE_DELAY_MS): number {
+  const { headers } = toApiError(error);
+
+  const retryAfter: number = Number(headers["retry-after"]);
+  if (headers["retry-after"] && Number.isFinite(retryAfter)) {
+    return retryAfter * 1000;
+  }
+
+  const reset: number = Number(headers["x-ratelimit-reset"]);
+  if (headers["x-ratelimit-remaining"] === "0" && Number.isFinite(reset)) {
+    return Math.max(reset * 1000 - Date.now(), 0);
+  }
+
+  return baseDelayMs * 2 ** (attempt - 1);
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs the operation, retrying transient failures (server errors, rate
+ * limits, dropped connections) with exponential backoff.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  description: string,
+  options: RetryOptions = {}
+): Promise<T> {
+  const attempts: number = options.attempts ?? MAX_ATTEMPTS;
+  const sleep = options.sleep ?? defaultSleep;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error: unknown) {
+      if (attempt >= attempts || !isTransientError(error)) {
+        throw error;
+      }
+
+      const delay: number = getRetryDelay(error, attempt, options.baseDelayMs);
+      if (delay > MAX_DELAY_MS) {
+        throw error;
+      }
+
+      const errorMessage: string = error instanceof Error ? error.message : String(error);
+      log.warning(`Failed to ${description} (${errorMessage}); retrying in ${Math.ceil(delay / 1000)}s`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Turns authentication, permission, rate limit and not-found API errors into
+ * messages that say what to fix. Other errors are returned unchanged.
+ */
+export function explainApiError(error: unknown, options: RequestOptions): unknown {
+  const { status, message } = toApiError(error);
+
+  if (isRateLimitError(error)) {
+    return new Error(`GitHub API rate limit exceeded while trying to ${options.action}: ${message}`);
+  }
+
+  switch (status) {
+    case 401:
+      return new Error(`GitHub rejected the token while trying to ${options.action}; check the github-token input`);
+    case 403:
+      return new Error(
+        `The GitHub token is not allowed to ${options.action} (${message}); ` +
+        `grant the workflow the "${options.permission}" permission`
+      );
+    case 404:
+      return options.notFound
+        ? new Error(`${options.notFound} (${message})`)
+        : error;
+    default:
+      return error;
+  }
+}
+
+export async function requestWithRetry<T>(
+  operation: () => Promise<T>,
+  options: RequestOptions,
+  retryOptions: RetryOptions = {}
+): Promise<T> {
+  try {
+    return await withRetry(operation, options.action, retryOptions);
+  } catch (error: unknown) {
+    throw explainApiError(error, options);
+  }
+}
@@ -0,0 +1,493 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import * as git from './git'
+import {
+  getChangedFiles,
+  getPushChangedFiles,
+  getGitChangedFiles,
+  parseChangeSource,
+  parseCompareWith,
+  getEventMode,
+  getChangedPaths,
+  type GitHubContext,
+  type PullRequestFile
+} from './changes'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+vi.mock('./git')
+
+const mockCore = vi.mocked(core)
+const mockGithub = vi.mocked(github)
+const mockGit = vi.mocked(git)
+
+describe('changes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('getChangedFiles', () => {
+    it('should fetch and return changed files from GitHub API', async () => {
+      const mockFiles: PullRequestFile[] = [
+        { filename: 'src/app1/file1.ts', status: 'modified' },
+        { filename: 'src/app2/file2.ts', status: 'added' },
+        { filename: 'docs/README.md', status: 'modified' }
+      ]
+
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockResolvedValue({ data: mockFiles })
+          }
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+
+      const context: GitHubContext = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 123 } }
+      }
+
+      const result = await getChangedFiles('mock-token', context)
+
+      expect(mockGithub.getOctokit).toHaveBeenCalledWith('mock-token')
+      expect(mockOctokit.rest.pulls.listFiles).toHaveBeenCalledWith({
+        owner: 'testowner',
+        repo: 'testrepo',
+        pull_number: 123,
+        per_page: 100,
+        page: 1
+      })
+      expect(result).toEqual(mockFiles)
+    })
+
+    it('should walk every page of changed files', async () => {
+      const firstPage: PullRequestFile[] = Array.from({ length: 100 }, (_, i) => ({
+        filename: `src/app1/file${i}.ts`,
+        status: 'modified'
+      }))
+      const secondPage: PullRequestFile[] = [
+        { filename: 'src/app2/last.ts', status: 'added' }
+      ]
+
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn()
+              .mockResolvedValueOnce({ data: firstPage })
+              .mockResolvedValueOnce({ data: secondPage })
+          }
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+
+      const context: GitHubContext = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 123 } }
+      }
+
+      const result = await getChangedFiles('mock-token', context)
+
+      expect(mockOctokit.rest.pulls.listFiles).toHaveBeenCalledTimes(2)
+      expect(mockOctokit.rest.pulls.listFiles).toHaveBeenLastCalledWith(
+        expect.objectContaining({ page: 2, per_page: 100 })
+      )
+      expect(result).toHaveLength(101)
+      expect(result[100]).toEqual({ filename: 'src/app2/last.ts', status: 'added' })
+      expect(mockGit.getNameStatusDiff).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to git diff when the API file cap is hit', async () => {
+      const fullPage: PullRequestFile[] = Array.from({ length: 100 }, (_, i) => ({
+        filename: `src/app1/file${i}.ts`,
+        status: 'modified'
+      }))
+
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn()
+              .mockResolvedValueOnce({ data: fullPage })
+              .mockResolvedValueOnce({ data: [] })
+          }
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+      mockGit.getNameStatusDiff.mockReturnValue([
+        { filename: 'src/app1/file0.ts', status: 'modified' },
+        { filename: 'src/app9/file.ts', status: 'added' }
+      ])
+
+      const context: GitHubContext = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {
+          pull_request: {
+            number: 123,
+            changed_files: 3500,
+            base: { sha: 'base-sha' },
+            head: { sha: 'head-sha' }
+          }
+        }
+      }
+
+      const result = await getChangedFiles('mock-token', context)
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Pull request file listing is truncated (100 of 3500 files); falling back to git diff'
+      )
+      expect(mockGit.getNameStatusDiff).toHaveBeenCalledWith('base-sha', 'head-sha')
+      expect(result).toEqual([
+        { filename: 'src/app1/file0.ts', status: 'modified' },
+        { filename: 'src/app9/file.ts', status: 'added' }
+      ])
+    })
+
+    it('should throw when truncated and base/head SHAs are unavailable', async () => {
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockResolvedValue({ data: [] })
+          }
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+
+      const context: GitHubContext = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 123, changed_files: 5 } }
+      }
+
+      await expect(getChangedFiles('mock-token', context))
+        .rejects.toThrow('Pull request payload is missing base/head SHAs')
+    })
+
+    it('should throw error when not in pull request context', async () => {
+      const context: GitHubContext = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {}
+      }
+
+      await expect(getChangedFiles('mock-token', context))
+        .rejects.toThrow('This action only works on pull requests')
+    })
+
+    it('should handle GitHub API errors', async () => {
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockRejectedValue(new Error('API Error'))
+          }
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+
+      const context: GitHubContext = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 123 } }
+      }
+
+      await expect(getChangedFiles('mock-token', context))
+        .rejects.toThrow('API Error')
+    })
+  })
+
+  describe('getPushChangedFiles', () => {
+    let compareCommitsWithBasehead: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      compareCommitsWithBasehead = vi.fn().mockResolvedValue({
+        data: {
+          files: [
+            { filename: 'src/app1/file1.ts', status: 'modified' },
+            { filename: 'src/app2/file2.ts', status: 'removed' }
+          ]
+        }
+      })
+
+      mockGithub.getOctokit.mockReturnValue({
+        rest: { repos: { compareCommitsWithBasehead } }
+      } as any)
+    })
+
+    it('should compare the before and after commits', async () => {
+      const context: GitHubContext = {
+        eventName: 'push',
+        ref: 'refs/heads/main',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { before: 'before-sha', after: 'after-sha' }
+      }
+
+      const result = await getPushChangedFiles('mock-token', context)
+
+      expect(compareCommitsWithBasehead).toHaveBeenCalledWith({
+        owner: 'testowner',
+        repo: 'testrepo',
+        basehead: 'before-sha...after-sha',
+        per_page: 1
+      })
+      expect(result).toEqual([
+        { filename: 'src/app1/file1.ts', status: 'modified' },
+        { filename: 'src/app2/file2.ts', status: 'removed' }
+      ])
+    })
+
+    it('should compare a new branch against the default branch', async () => {
+      const context: GitHubContext = {
+        eventName: 'push',
+        ref: 'refs/heads/feature',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {
+          before: '0000000000000000000000000000000000000000',
+          after: 'after-sha',
+          repository: { default_branch: 'main' }
+        }
+      }
+
+      await getPushChangedFiles('mock-token', context)
+
+      expect(compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'main...after-sha' })
+      )
+    })
+
+    it('should return null for a new default branch with nothing to compare against', async () => {
+      const context: GitHubContext = {
+        eventName: 'push',
+        ref: 'refs/heads/main',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {
+          before: '0000000000000000000000000000000000000000',
+          after: 'after-sha',
+          repository: { default_branch: 'main' }
+        }
+      }
+
+      expect(await getPushChangedFiles('mock-token', context)).toBeNull()
+      expect(compareCommitsWithBasehead).not.toHaveBeenCalled()
+    })
+
+    it('should return no files when the ref was deleted', async () => {
+      const context: GitHubContext = {
+        eventName: 'push',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {
+          before: 'before-sha',
+          after: '0000000000000000000000000000000000000000',
+          deleted: true
+        }
+      }
+
+      expect(await getPushChangedFiles('mock-token', context)).toEqual([])
+    })
+
+    it('should return null when a force-pushed base can no longer be compared', async () => {
+      compareCommitsWithBasehead.mockRejectedValue(new Error('Not Found'))
+
+      const context: GitHubContext = {
+        eventName: 'push',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { before: 'before-sha', after: 'after-sha', forced: true }
+      }
+
+      expect(await getPushChangedFiles('mock-token', context)).toBeNull()
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to compare force-pushed commits before-sha...after-sha: Not Found'
+      )
+    })
+
+    it('should rethrow compare errors for regular pushes', async () => {
+      compareCommitsWithBasehead.mockRejectedValue(new Error('Not Found'))
+
+      const context: GitHubContext = {
+        eventName: 'push',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { before: 'before-sha', after: 'after-sha' }
+      }
+
+      await expect(getPushChangedFiles('mock-token', context)).rejects.toThrow('Not Found')
+    })
+
+    it('should fall back to git diff when the compare listing is truncated', async () => {
+      compareCommitsWithBasehead.mockResolvedValue({
+        data: {
+          files: Array.from({ length: 300 }, (_, i) => ({ filename: `src/app1/${i}.ts`, status: 'added' }))
+        }
+      })
+      mockGit.getNameStatusDiff.mockReturnValue([{ filename: 'src/app3/file.ts', status: 'added' }])
+
+      const context: GitHubContext = {
+        eventName: 'push',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { before: 'before-sha', after: 'after-sha' }
+      }
+
+      const result = await getPushChangedFiles('mock-token', context)
+
+      expect(mockGit.getNameStatusDiff).toHaveBeenCalledWith('before-sha', 'after-sha')
+      expect(result).toEqual([{ filename: 'src/app3/file.ts', status: 'added' }])
+    })
+  })
+
+  describe('getGitChangedFiles', () => {
+    beforeEach(() => {
+      mockGit.getNameStatusDiff.mockReturnValue([
+        { filename: 'src/app1/file1.ts', status: 'modified' },
+        { filename: 'src/app2/file2.ts', status: 'renamed', previous_filename: 'src/old/file2.ts' }
+      ])
+    })
+
+    it('should diff the pull request base SHA against HEAD', () => {
+      const context: GitHubContext = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 123, base: { sha: 'base-sha' } } }
+      }
+
+      const result = getGitChangedFiles(context, '')
+
+      expect(mockGit.getNameStatusDiff).toHaveBeenCalledWith('base-sha', 'HEAD')
+      expect(result).toEqual([
+        { filename: 'src/app1/file1.ts', status: 'modified' },
+        { filename: 'src/app2/file2.ts', status: 'renamed', previous_filename: 'src/old/file2.ts' }
+      ])
+    })
+
+    it('should prefer an explicit base ref', () => {
+      const context: GitHubContext = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 123, base: { sha: 'base-sha' } } }
+      }
+
+      getGitChangedFiles(context, 'origin/main')
+
+      expect(mockGit.getNameStatusDiff).toHaveBeenCalledWith('origin/main', 'HEAD')
+    })
+
+    it('should diff the push before SHA against HEAD', () => {
+      const context: GitHubContext = {
+        eventName: 'push',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { before: 'before-sha', after: 'after-sha' }
+      }
+
+      getGitChangedFiles(context, '')
+
+      expect(mockGit.getNameStatusDiff).toHaveBeenCalledWith('before-sha', 'HEAD')
+    })
+
+    it('should diff a new branch against the remote default branch', () => {
+      const context: GitHubContext = {
+        eventName: 'push',
+        ref: 'refs/heads/feature',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {
+          before: '0000000000000000000000000000000000000000',
+          after: 'after-sha',
+          repository: { default_branch: 'main' }
+        }
+      }
+
+      getGitChangedFiles(context, '')
+
+      expect(mockGit.getNameStatusDiff).toHaveBeenCalledWith('origin/main', 'HEAD')
+    })
+
+    it('should require a base ref outside pull request and push events', () => {
+      const context: GitHubContext = {
+        eventName: 'workflow_dispatch',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {}
+      }
+
+      expect(() => getGitChangedFiles(context, ''))
+        .toThrow('base-ref is required for the git change source')
+    })
+  })
+
+  describe('parseChangeSource', () => {
+    it('should default to the API', () => {
+      expect(parseChangeSource('')).toBe('api')
+    })
+
+    it('should accept git case-insensitively', () => {
+      expect(parseChangeSource(' Git ')).toBe('git')
+    })
+
+    it('should reject unknown sources', () => {
+      expect(() => parseChangeSource('svn')).toThrow('Invalid change-source: svn')
+    })
+  })
+
+  describe('parseCompareWith', () => {
+    it('should default to the event payload', () => {
+      expect(parseCompareWith('')).toBe('event')
+    })
+
+    it('should accept the last successful run', () => {
+      expect(parseCompareWith('Last-Successful-Run')).toBe('last-successful-run')
+    })
+
+    it('should reject unknown values', () => {
+      expect(() => parseCompareWith('tag')).toThrow('Invalid compare-with: tag')
+    })
+  })
+
+  describe('getChangedPaths', () => {
+    it('should include previous filenames of renamed files', () => {
+      const files: PullRequestFile[] = [
+        { filename: 'apps/new/index.ts', status: 'renamed', previous_filename: 'apps/old/index.ts' },
+        { filename: 'apps/api/index.ts', status: 'modified' }
+      ]
+
+      expect(getChangedPaths(files)).toEqual([
+        'apps/new/index.ts',
+        'apps/old/index.ts',
+        'apps/api/index.ts'
+      ])
+    })
+  })
+
+  describe('getEventMode', () => {
+    const options = {
+      changeSource: 'api' as const,
+      compareWith: 'event' as const,
+      baseRef: '',
+      headRef: '',
+      manualDirectories: '',
+      strict: false
+    }
+    const createContext = (eventName?: string, payload: GitHubContext['payload'] = {}): GitHubContext => ({
+      eventName,
+      repo: { owner: 'testowner', repo: 'testrepo' },
+      payload
+    })
+
+    it('should use the event name for supported events', () => {
+      expect(getEventMode(createContext('pull_request_target'), options)).toBe('pull_request_target')
+      expect(getEventMode(createContext('merge_group'), options)).toBe('merge_group')
+      expect(getEventMode(createContext('schedule'), options)).toBe('schedule')
+    })
+
+    it('should only compare workflow_dispatch runs when a base ref is given', () => {
+      expect(getEventMode(createContext('workflow_dispatch'), options)).toBe('manual')
+      expect(getEventMode(createContext('workflow_dispatch'), { ...options, baseRef: 'main' })).toBe('workflow_dispatch')
+      expect(getEventMode(createContext('workflow_dispatch'), { ...options, compareWith: 'last-successful-run' }))
+        .toBe('workflow_dispatch')
+    })
+
+    it('should prefer manual directories and fall back to the payload', () => {
+      expect(getEventMode(createContext('push'), { ...options, manualDirectories: 'app1' })).toBe('manual')
+      expect(getEventMode(createContext(undefined, { pull_request: { number: 1 } }), options)).toBe('pull_request')
+      expect(getEventMode(createContext('release'), options)).toBe('manual')
+    })
+  })
+})
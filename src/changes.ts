@@ -0,0 +1,517 @@
+import * as github from "@actions/github";
+import { requestWithRetry } from "./api";
+import { getNameStatusDiff } from "./git";
+import { log } from "./log";
+import { parseManualDirectories } from "./selection";
+
+const FILES_PER_PAGE = 100;
+const MAX_PULL_REQUEST_FILES = 3000;
+const MAX_COMPARE_FILES = 300;
+
+export interface PullRequestFile {
+  filename: string;
+  status: string;
+  previous_filename?: string;
+  additions?: number;
+  deletions?: number;
+}
+
+export type ChangeSource = "api" | "git";
+
+export type CompareWith = "event" | "last-successful-run";
+
+export type EventMode =
+  | "pull_request"
+  | "pull_request_target"
+  | "push"
+  | "merge_group"
+  | "workflow_dispatch"
+  | "schedule"
+  | "manual";
+
+const MODE_LABELS: Record<EventMode, string> = {
+  pull_request: "pull request",
+  pull_request_target: "pull request target",
+  push: "push",
+  merge_group: "merge queue",
+  workflow_dispatch: "workflow dispatch",
+  schedule: "schedule",
+  manual: "manual",
+};
+
+export interface GitHubContext {
+  eventName?: string;
+  ref?: string;
+  sha?: string;
+  runId?: number;
+  repo: {
+    owner: string;
+    repo: string;
+  };
+  payload: {
+    pull_request?: {
+      number: number;
+      changed_files?: number;
+      user?: {
+        login: string;
+      };
+      base?: {
+        sha: string;
+      };
+      head?: {
+        sha: string;
+      };
+    };
+    before?: string;
+    after?: string;
+    forced?: boolean;
+    deleted?: boolean;
+    repository?: {
+      default_branch?: string;
+    };
+    merge_group?: {
+      base_sha?: string;
+      head_sha?: string;
+    };
+  };
+}
+
+export function parseChangeSource(input: string): ChangeSource {
+  const value: string = input.trim().toLowerCase() || "api";
+
+  if (value !== "api" && value !== "git") {
+    throw new Error(`Invalid change-source: ${input} (expected "api" or "git")`);
+  }
+
+  return value;
+}
+
+export function parseCompareWith(input: string): CompareWith {
+  const value: string = input.trim().toLowerCase() || "event";
+
+  if (value !== "event" && value !== "last-successful-run") {
+    throw new Error(`Invalid compare-with: ${input} (expected "event" or "last-successful-run")`);
+  }
+
+  return value;
+}
+
+function toChangedFile(file: PullRequestFile): PullRequestFile {
+  return {
+    filename: file.filename,
+    status: file.status,
+    ...(file.previous_filename ? { previous_filename: file.previous_filename } : {}),
+    ...(typeof file.additions === "number" ? { additions: file.additions } : {}),
+    ...(typeof file.deletions === "number" ? { deletions: file.deletions } : {}),
+  };
+}
+
+export function getChangedPaths(files: PullRequestFile[]): string[] {
+  return files.flatMap((file: PullRequestFile) =>
+    file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]
+  );
+}
+
+export async function getChangedFiles(token: string, context: GitHubContext): Promise<PullRequestFile[]> {
+  if (!context.payload.pull_request) {
+    throw new Error(
+      `This action only works on pull requests; the ${context.eventName ?? "current"} event payload has no pull request`
+    );
+  }
+
+  const pullRequest = context.payload.pull_request;
+  const octokit = github.getOctokit(token);
+  const files: PullRequestFile[] = [];
+
+  for (let page = 1; ; page++) {
+    const { data } = await requestWithRetry(() => octokit.rest.pulls.listFiles({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      pull_number: pullRequest.number,
+      per_page: FILES_PER_PAGE,
+      page,
+    }), {
+      action: "list pull request files",
+      permission: "pull-requests: read",
+      notFound: `Pull request #${pullRequest.number} was not found in ${context.repo.owner}/${context.repo.repo}`,
+    });
+
+    files.push(...data);
+
+    if (data.length < FILES_PER_PAGE) {
+      break;
+    }
+  }
+
+  const expectedCount: number = pullRequest.changed_files ?? files.length;
+  if (files.length >= MAX_PULL_REQUEST_FILES || expectedCount > files.length) {
+    log.warning(
+      `Pull request file listing is truncated (${files.length} of ${expectedCount} files); falling back to git diff`
+    );
+
+    if (!pullRequest.base?.sha || !pullRequest.head?.sha) {
+      throw new Error("Pull request payload is missing base/head SHAs required for the git diff fallback");
+    }
+
+    return getNameStatusDiff(pullRequest.base.sha, pullRequest.head.sha);
+  }
+
+  return files.map(toChangedFile);
+}
+
+export function isNullSha(sha: string | undefined): boolean {
+  return !sha || /^0+$/.test(sha);
+}
+
+function getNewBranchBase(context: GitHubContext): string | null {
+  const defaultBranch: string | undefined = context.payload.repository?.default_branch;
+  const pushedBranch: string | undefined = context.ref?.replace(/^refs\/heads\//, "");
+
+  if (!defaultBranch || defaultBranch === pushedBranch) {
+    log.info("Push created a new ref with no base to compare against");
+    return null;
+  }
+
+  log.info(`Push created a new branch; comparing against default branch ${defaultBranch}`);
+  return defaultBranch;
+}
+
+export async function getPushChangedFiles(token: string, context: GitHubContext): Promise<PullRequestFile[] | null> {
+  const { before, after, forced, deleted } = context.payload;
+
+  if (deleted || isNullSha(after)) {
+    log.info("Pushed ref was deleted; no files changed");
+    return [];
+  }
+
+  let base: string;
+  if (isNullSha(before)) {
+    const defaultBranch: string | null = getNewBranchBase(context);
+
+    if (!defaultBranch) {
+      return null;
+    }
+
+    base = defaultBranch;
+  } else {
+    base = before as string;
+  }
+
+  try {
+    return await compareCommits(token, context, base, after as string);
+  } catch (error: unknown) {
+    if (!forced) {
+      throw error;
+    }
+
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    log.warning(`Failed to compare force-pushed commits ${base}...${after}: ${errorMessage}`);
+    return null;
+  }
+}
+
+/**
+ * Returns the files changed between two commits using the compare API,
+ * falling back to git diff when the API listing may be truncated.
+ */
+export async function compareCommits(
+  token: string,
+  context: GitHubContext,
+  base: string,
+  head: string
+): Promise<PullRequestFile[]> {
+  const octokit = github.getOctokit(token);
+
+  const { data } = await requestWithRetry(() => octokit.rest.repos.compareCommitsWithBasehead({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    basehead: `${base}...${head}`,
+    per_page: 1,
+  }), {
+    action: "compare commits",
+    permission: "contents: read",
+    notFound: `Commits ${base}...${head} were not found in ${context.repo.owner}/${context.repo.repo}`,
+  });
+  const files: PullRequestFile[] = data.files ?? [];
+
+  if (files.length >= MAX_COMPARE_FILES) {
+    log.warning(`Compare API file listing may be truncated (${files.length} files); falling back to git diff`);
+    return getNameStatusDiff(base, head);
+  }
+
+  return files.map(toChangedFile);
+}
+
+/**
+ * Returns the head SHA of the most recent successful run of the current
+ * workflow on the current branch, or null when there is none.
+ */
+export async function getLastSuccessfulRunSha(token: string, context: GitHubContext): Promise<string | null> {
+  const branch: string | undefined = context.ref?.replace(/^refs\/heads\//, "");
+  if (!context.runId || !branch) {
+    log.info("No workflow run or branch to look up previous runs for");
+    return null;
+  }
+
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = context.repo;
+  const runId: number = context.runId;
+
+  const { data: currentRun } = await requestWithRetry(
+    () => octokit.rest.actions.getWorkflowRun({ owner, repo, run_id: runId }),
+    { action: "read the current workflow run", permission: "actions: read" }
+  );
+  const { data } = await requestWithRetry(
+    () => octokit.rest.actions.listWorkflowRuns({
+      owner,
+      repo,
+      workflow_id: currentRun.workflow_id,
+      branch,
+      status: "success",
+      per_page: 1,
+    }),
+    { action: "list workflow runs", permission: "actions: read" }
+  );
+
+  const lastRun = data.workflow_runs[0];
+  if (!lastRun) {
+    log.info(`No successful run of this workflow on ${branch} yet`);
+    return null;
+  }
+
+  log.info(`Last successful run on ${branch} was ${lastRun.html_url} at ${lastRun.head_sha}`);
+  return lastRun.head_sha;
+}
+
+export function getGitChangedFiles(
+  context: GitHubContext,
+  baseRef: string,
+  headRef: string = ""
+): PullRequestFile[] | null {
+  const { pull_request: pullRequest, before, after, deleted } = context.payload;
+  let base: string | null;
+  let head: string = headRef || "HEAD";
+
+  // pull_request_target checks out the base branch, so diff the pull request head instead
+  if (!headRef && context.eventName === "pull_request_target" && pullRequest?.head?.sha) {
+    head = pullRequest.head.sha;
+  }
+
+  if (baseRef) {
+    base = baseRef;
+  } else if (pullRequest) {
+    if (!pullRequest.base?.sha) {
+      throw new Error("Pull request payload is missing the base SHA; set base-ref to diff against");
+    }
+    base = pullRequest.base.sha;
+  } else if (context.eventName === "push") {
+    if (deleted || isNullSha(after)) {
+      log.info("Pushed ref was deleted; no files changed");
+      return [];
+    }
+
+    if (isNullSha(before)) {
+      const defaultBranch: string | null = getNewBranchBase(context);
+      base = defaultBranch ? `origin/${defaultBranch}` : null;
+    } else {
+      base = before as string;
+    }
+  } else {
+    throw new Error("base-ref is required for the git change source outside pull request and push events");
+  }
+
+  if (base === null) {
+    return null;
+  }
+
+  log.info(`Comparing ${base}...${head} with local git`);
+  return getNameStatusDiff(base, head);
+}
+
+export type Changes =
+  | { mode: "manual"; directories: string[]; strict: boolean }
+  | { mode: "changes"; files: PullRequestFile[] | null }
+  // Changed files could not be determined and on-error chose a fallback
+  | { mode: "fallback"; selectAll: boolean };
+
+export interface ChangeOptions {
+  changeSource: ChangeSource;
+  compareWith: CompareWith;
+  baseRef: string;
+  headRef: string;
+  manualDirectories: string;
+  strict: boolean;
+}
+
+/**
+ * Decides how changed files are determined from the triggering event.
+ * Unknown events, and workflow_dispatch runs without a base-ref, fall back to
+ * manual mode.
+ */
+export function getEventMode(context: GitHubContext, options: ChangeOptions): EventMode {
+  if (options.manualDirectories) {
+    return "manual";
+  }
+
+  switch (context.eventName) {
+    case "pull_request":
+    case "pull_request_target":
+    case "push":
+    case "merge_group":
+    case "schedule":
+      return context.eventName;
+    case "workflow_dispatch":
+      return options.baseRef || options.compareWith === "last-successful-run" ? "workflow_dispatch" : "manual";
+    default:
+      return context.payload.pull_request ? "pull_request" : "manual";
+  }
+}
+
+/**
+ * Returns whether the base is the head of the last successful run of the
+ * workflow rather than what the event payload provides.
+ */
+function comparesWithLastRun(mode: EventMode, context: GitHubContext, options: ChangeOptions): boolean {
+  if (options.baseRef) {
+    return false;
+  }
+
+  if (mode === "schedule") {
+    return true;
+  }
+
+  return options.compareWith === "last-successful-run" &&
+    (mode === "workflow_dispatch" || (mode === "push" && !context.payload.deleted));
+}
+
+/**
+ * Returns the base and head to compare for merge queue, workflow dispatch,
+ * scheduled runs and runs compared with the last successful run, or null
+ * when there is no base to compare against.
+ */
+async function getEventComparison(
+  mode: EventMode,
+  context: GitHubContext,
+  token: string,
+  options: ChangeOptions
+): Promise<{ base: string; head: string } | null> {
+  const head: string = options.headRef || context.sha || "HEAD";
+
+  if (mode === "merge_group") {
+    const { base_sha: base, head_sha: mergeHead } = context.payload.merge_group ?? {};
+    if (!base || !mergeHead) {
+      throw new Error("merge_group payload is missing base_sha/head_sha");
+    }
+    return { base: options.baseRef || base, head: options.headRef || mergeHead };
+  }
+
+  if (comparesWithLastRun(mode, context, options)) {
+    if (!token) {
+      throw new Error(`GitHub token is required to find the last successful run in ${MODE_LABELS[mode]} mode`);
+    }
+
+    const base: string | null = await getLastSuccessfulRunSha(token, context);
+    return base === null ? null : { base, head };
+  }
+
+  return { base: options.baseRef, head };
+}
+
+export async function getChanges(
+  context: GitHubContext,
+  token: string,
+  mode: EventMode,
+  options: ChangeOptions
+): Promise<Changes> {
+  const modeName: string = MODE_LABELS[mode];
+  log.info(`Running in ${modeName} mode`);
+
+  if (mode === "manual") {
+    const manualDirectories: string[] = parseManualDirectories(options.manualDirectories);
+    log.debug(`Manual directories input: ${JSON.stringify(manualDirectories)}`);
+
+    return { mode: "manual", directories: manualDirectories, strict: options.strict };
+  }
+
+  let changedFiles: PullRequestFile[] | null;
+
+  if (mode === "merge_group" || mode === "workflow_dispatch" || comparesWithLastRun(mode, context, options)) {
+    const comparison: { base: string; head: string } | null = await getEventComparison(mode, context, token, options);
+
+    if (comparison === null) {
+      changedFiles = null;
+    } else if (options.changeSource === "git") {
+      log.info(`Comparing ${comparison.base}...${comparison.head} with local git`);
+      changedFiles = getNameStatusDiff(comparison.base, comparison.head);
+    } else {
+      if (!token) {
+        throw new Error(`GitHub token is required for ${modeName} mode`);
+      }
+      log.info(`Comparing ${comparison.base}...${comparison.head}`);
+      changedFiles = await compareCommits(token, context, comparison.base, comparison.head);
+    }
+  } else if (options.changeSource === "git") {
+    log.info("Using local git diff as the change source");
+    changedFiles = getGitChangedFiles(context, options.baseRef, options.headRef);
+  } else {
+    if (!token) {
+      throw new Error(`GitHub token is required for ${modeName} mode`);
+    }
+
+    changedFiles = context.payload.pull_request
+      ? await getChangedFiles(token, context)
+      : await getPushChangedFiles(token, context);
+  }
+
+  if (changedFiles !== null) {
+    log.info(`Found ${changedFiles.length} changed files`);
+    log.debug(`Changed files: ${JSON.stringify(getChangedPaths(changedFiles))}`);
+  }
+
+  return { mode: "changes", files: changedFiles };
+}
+
+/**
+ * Supplies the changes to select directories by. The action derives them
+ * from the triggering event; library callers can use one of the providers
+ * below or their own.
+ */
+export type ChangeProvider = () => Promise<Changes>;
+
+/**
+ * Uses a fixed list of changed files. Plain paths are treated as modified.
+ */
+export function fromFiles(files: Array<string | PullRequestFile>): ChangeProvider {
+  return async () => ({
+    mode: "changes",
+    files: files.map((file: string | PullRequestFile) =>
+      typeof file === "string" ? { filename: file, status: "modified" } : toChangedFile(file)
+    ),
+  });
+}
+
+/**
+ * Diffs base...head in the local repository, deepening shallow clones as
+ * needed.
+ */
+export function fromGitDiff(base: string, head: string = "HEAD", cwd?: string): ChangeProvider {
+  return async () => {
+    log.info(`Comparing ${base}...${head} with local git`);
+    return { mode: "changes", files: getNameStatusDiff(base, head, cwd) };
+  };
+}
+
+/**
+ * Selects directories by manual-directories entries instead of changes.
+ */
+export function fromManualSelection(entries: string | string[], strict: boolean = false): ChangeProvider {
+  const directories: string[] = typeof entries === "string" ? parseManualDirectories(entries) : entries;
+  return async () => ({ mode: "manual", directories, strict });
+}
+
+/**
+ * Determines changes from a GitHub event the same way the action does.
+ */
+export function fromGitHubEvent(context: GitHubContext, token: string, options: ChangeOptions): ChangeProvider {
+  return () => getChanges(context, token, getEventMode(context, options), options);
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { parseCliArgs, runCli, type CliIO } from './cli'
+import { commitAll, git, initRepository, writeFile } from './test-helpers'
+
+vi.mock('@actions/core')
+
+function captureIO(): CliIO & { out: string[]; err: string[] } {
+  const out: string[] = []
+  const err: string[] = []
+  return { out, err, stdout: text => out.push(text), stderr: text => err.push(text) }
+}
+
+describe('cli', () => {
+  const originalCwd: string = process.cwd()
+  let repoPath: string
+  let baseSha: string
+
+  beforeAll(() => {
+    repoPath = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'filter-dir-cli-')))
+    initRepository(repoPath)
+
+    writeFile(repoPath, 'apps/api/index.ts', 'export {}\n')
+    writeFile(repoPath, 'apps/web/index.ts', 'export {}\n')
+    baseSha = commitAll(repoPath, 'base')
+
+    writeFile(repoPath, 'apps/api/index.ts', 'export const a = 1\n')
+    git(repoPath, 'commit', '--quiet', '-am', 'head')
+  })
+
+  afterEach(() => {
+    process.chdir(originalCwd)
+  })
+
+  afterAll(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true })
+  })
+
+  describe('parseCliArgs', () => {
+    it('should build a single group from the options', () => {
+      const options = parseCliArgs(
+        ['--parent', 'apps', '--base', 'main', '--depth', '2', '--include', '*.ts', '--include', '*.tsx', '--skip-hidden'],
+        '/repo'
+      )
+
+      expect(options?.groups).toEqual([expect.objectContaining({
+        targetParentPath: '/repo/apps',
+        depth: 2,
+        includePaths: ['*.ts', '*.tsx'],
+        skipHidden: true
+      })])
+      expect(options?.configMode).toBe(false)
+      expect(options?.listSeparator).toBe(' ')
+    })
+
+    it('should return null for --help', () => {
+      expect(parseCliArgs(['--help'], '/repo')).toBeNull()
+    })
+
+    it('should require a base unless directories are selected manually', () => {
+      expect(() => parseCliArgs(['--parent', 'apps'], '/repo')).toThrow('--base is required unless --manual is set')
+      expect(parseCliArgs(['--parent', 'apps', '--manual', 'api'], '/repo')).not.toBeNull()
+    })
+
+    it('should require exactly one of --parent and --config', () => {
+      expect(() => parseCliArgs(['--base', 'main'], '/repo')).toThrow('Exactly one of --parent and --config is required')
+    })
+
+    it('should reject unknown options', () => {
+      expect(() => parseCliArgs(['--parent', 'apps', '--base', 'main', '--bogus'], '/repo')).toThrow()
+    })
+  })
+
+  describe('runCli', () => {
+    it('should print the outputs for the diff as JSON', async () => {
+      process.chdir(path.join(repoPath, 'apps'))
+      const io = captureIO()
+
+      const exitCode = await runCli(['--parent', '.', '--base', baseSha], io)
+
+      expect(exitCode).toBe(0)
+      const outputs = JSON.parse(io.out.join(''))
+      expect(outputs['filtered-dir-path']).toEqual(['api'])
+      expect(outputs['matrix']).toEqual({
+        include: [{ name: 'api', path: 'apps/api', 'changed-files': ['apps/api/index.ts'] }]
+      })
+      expect(io.err).toEqual([])
+    })
+
+    it('should log progress to stderr with --verbose', async () => {
+      process.chdir(repoPath)
+      const io = captureIO()
+
+      await runCli(['--parent', 'apps', '--base', baseSha, '--verbose'], io)
+
+      expect(io.err.join('')).toContain(`Comparing ${baseSha}...HEAD with local git`)
+    })
+
+    it('should skip directories whose contents match the hash cache', async () => {
+      process.chdir(repoPath)
+      const cacheFile = path.join(os.tmpdir(), `filter-dir-cli-cache-${process.pid}.json`)
+      const args = ['--parent', 'apps', '--base', baseSha, '--content-hash', '--hash-cache', cacheFile]
+
+      try {
+        const first = captureIO()
+        await runCli(args, first)
+        const second = captureIO()
+        await runCli(args, second)
+
+        expect(JSON.parse(first.out.join(''))['filtered-dir-path']).toEqual(['api'])
+        expect(JSON.parse(second.out.join(''))['filtered-dir-path']).toEqual([])
+        expect(Object.keys(JSON.parse(fs.readFileSync(cacheFile, 'utf8')))).toEqual(['apps/api', 'apps/web'])
+      } finally {
+        fs.rmSync(cacheFile, { force: true })
+      }
+    })
+
+    it('should report errors on stderr and exit with 1', async () => {
+      process.chdir(repoPath)
+      const io = captureIO()
+
+      const exitCode = await runCli(['--parent', 'missing', '--manual', 'api'], io)
+
+      expect(exitCode).toBe(1)
+      expect(io.out).toEqual([])
+      expect(io.err.join('')).toContain('filter-dir: Target directory does not exist')
+    })
+  })
+})
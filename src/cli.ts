@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+import * as path from "path";
+import { parseArgs } from "util";
+import {
+  createGroupConfig,
+  loadConfigFile,
+  parseDepth,
+  parseLimit,
+  parseListInput,
+  parsePercent,
+  parseSortOrder,
+  parseThresholdFallback,
+  type GroupConfig,
+} from "./config";
+import { fromGitDiff, fromManualSelection, type ChangeProvider } from "./changes";
+import { parseDependencySources } from "./dependencies";
+import { getDirectoryOwners, loadCodeowners, type CodeownersRule } from "./codeowners";
+import { getRepositoryRoot } from "./git";
+import { readHashCache, writeHashCache, type HashCache } from "./hash";
+import { filterDirectories, type FilterResult } from "./lib";
+import { setLogger } from "./log";
+import { buildOutputs, getHashCacheEntries, parseListSeparator, type ActionOutputs } from "./outputs";
+
+const USAGE = `Usage: filter-dir --parent <path> --base <ref> [options]
+       filter-dir --config <file> --base <ref> [options]
+
+Prints the action's outputs for the changes between --base and --head as JSON.
+
+Options:
+  --parent <path>              Directory whose subdirectories are filtered (target-parent-path)
+  --config <file>              YAML or JSON file defining groups (config-file)
+  --base <ref>                 Commit to compare against (required unless --manual is set)
+  --head <ref>                 Commit to compare (default: HEAD)
+  --manual <entries>           Select directories by name, glob or /regex/ instead of changes
+  --strict                     Fail when a --manual entry matches no directory
+  --depth <n>                  Directory depth below the parent (default: 1)
+  --marker-files <names>       Select directories containing one of these files
+  --include <pattern>          Only consider matching changed files (repeatable)
+  --exclude <pattern>          Ignore matching changed files (repeatable)
+  --global <pattern>           Select every directory when a matching file changes (repeatable)
+  --dependency-sources <list>  Detect dependencies from "workspaces" and/or "tsconfig"
+  --dependency-map <file>      JSON map of directory -> dependency directories
+  --ignore-removed             Ignore removed files
+  --skip-hidden                Skip directories starting with "."
+  --respect-gitignore          Skip directories ignored by .gitignore
+  --case-insensitive           Match paths and patterns case-insensitively
+  --content-hash               Output a hash of each directory's tracked files
+  --hash-cache <file>          Skip changed directories whose hash matches this file, then update it
+  --label-template <template>  Output a label per selected directory, e.g. "dir:{name}"
+  --max-directories <n>        Fall back when more directories are selected
+  --max-changed-files <n>      Fall back when more files changed
+  --max-directories-percent <n>  Fall back when a larger share of directories is selected
+  --threshold-fallback <mode>  "all" selects every directory, "full" sets the full output (default: all)
+  --sort <order>               none, alphabetical, changed-files or topological (default: none)
+  --batch-size <n>             Directories per entry of the batches output
+  --codeowners                 Output the CODEOWNERS owners of each selected directory
+  --codeowners-file <file>     CODEOWNERS file to read (default: .github/, root or docs/)
+  --list-separator <sep>       Separator for filtered-dir-list (default: space)
+  --changed-files-dir <dir>    Write per-directory changed file lists to this directory
+  --verbose                    Log progress to stderr
+  --help                       Show this help`;
+
+export interface CliOptions {
+  groups: GroupConfig[];
+  changes: ChangeProvider;
+  configMode: boolean;
+  listSeparator: string;
+  changedFilesDir?: string;
+  hashCacheFile?: string;
+  // CODEOWNERS file to read, "" to search the default locations
+  codeownersFile?: string;
+  verbose: boolean;
+}
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const defaultIO: CliIO = {
+  stdout: (text: string) => process.stdout.write(text),
+  stderr: (text: string) => process.stderr.write(text),
+};
+
+/**
+ * Parses command line arguments, resolving paths against cwd. Returns null
+ * when help was requested.
+ */
+export function parseCliArgs(args: string[], cwd: string): CliOptions | null {
+  const { values } = parseArgs({
+    args,
+    strict: true,
+    options: {
+      parent: { type: "string" },
+      config: { type: "string" },
+      base: { type: "string" },
+      head: { type: "string", default: "HEAD" },
+      manual: { type: "string" },
+      strict: { type: "boolean", default: false },
+      depth: { type: "string", default: "" },
+      "marker-files": { type: "string", default: "" },
+      include: { type: "string", multiple: true, default: [] },
+      exclude: { type: "string", multiple: true, default: [] },
+      global: { type: "string", multiple: true, default: [] },
+      "dependency-sources": { type: "string", default: "" },
+      "dependency-map": { type: "string" },
+      "ignore-removed": { type: "boolean", default: false },
+      "skip-hidden": { type: "boolean", default: false },
+      "respect-gitignore": { type: "boolean", default: false },
+      "case-insensitive": { type: "boolean", default: false },
+      "content-hash": { type: "boolean", default: false },
+      "hash-cache": { type: "string" },
+      "label-template": { type: "string", default: "" },
+      "max-directories": { type: "string", default: "" },
+      "max-changed-files": { type: "string", default: "" },
+      "max-directories-percent": { type: "string", default: "" },
+      "threshold-fallback": { type: "string", default: "" },
+      sort: { type: "string", default: "" },
+      "batch-size": { type: "string", default: "" },
+      codeowners: { type: "boolean", default: false },
+      "codeowners-file": { type: "string" },
+      "list-separator": { type: "string", default: "" },
+      "changed-files-dir": { type: "string" },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    return null;
+  }
+
+  if (Boolean(values.parent) === Boolean(values.config)) {
+    throw new Error("Exactly one of --parent and --config is required");
+  }
+
+  if (!values.base && values.manual === undefined) {
+    throw new Error("--base is required unless --manual is set");
+  }
+
+  const resolve = (input: string): string => path.resolve(cwd, input);
+  const groups: GroupConfig[] = values.config
+    ? loadConfigFile(resolve(values.config))
+    : [createGroupConfig({
+      targetParentPath: resolve(values.parent as string),
+      depth: parseDepth(values.depth),
+      includePaths: values.include,
+      excludePaths: values.exclude,
+      globalPaths: values.global,
+      markerFiles: parseListInput(values["marker-files"]),
+      ignoreRemoved: values["ignore-removed"],
+      skipHidden: values["skip-hidden"],
+      respectGitignore: values["respect-gitignore"],
+      dependencySources: parseDependencySources(parseListInput(values["dependency-sources"])),
+      dependencyMapFile: values["dependency-map"] ? resolve(values["dependency-map"]) : undefined,
+      caseInsensitive: values["case-insensitive"],
+      contentHash: values["content-hash"],
+      labelTemplate: values["label-template"],
+      maxDirectories: parseLimit(values["max-directories"], "--max-directories"),
+      maxChangedFiles: parseLimit(values["max-changed-files"], "--max-changed-files"),
+      maxDirectoriesPercent: parsePercent(values["max-directories-percent"], "--max-directories-percent"),
+      thresholdFallback: parseThresholdFallback(values["threshold-fallback"]),
+      sort: parseSortOrder(values.sort),
+      batchSize: parseLimit(values["batch-size"], "--batch-size"),
+    })];
+
+  return {
+    groups,
+    changes: values.manual !== undefined
+      ? fromManualSelection(values.manual, values.strict)
+      : fromGitDiff(values.base as string, values.head),
+    configMode: Boolean(values.config),
+    listSeparator: parseListSeparator(values["list-separator"]),
+    changedFilesDir: values["changed-files-dir"] ? resolve(values["changed-files-dir"]) : undefined,
+    hashCacheFile: values["hash-cache"] ? resolve(values["hash-cache"]) : undefined,
+    codeownersFile: values["codeowners-file"]
+      ? resolve(values["codeowners-file"])
+      : values.codeowners ? "" : undefined,
+    verbose: values.verbose,
+  };
+}
+
+/**
+ * Runs the filter from the repository containing the working directory and
+ * prints the outputs as JSON. Returns the process exit code.
+ */
+export async function runCli(args: string[], io: CliIO = defaultIO): Promise<number> {
+  try {
+    const options: CliOptions | null = parseCliArgs(args, process.cwd());
+    if (options === null) {
+      io.stdout(`${USAGE}\n`);
+      return 0;
+    }
+
+    const progress = (message: string): void => {
+      if (options.verbose) {
+        io.stderr(`${message}\n`);
+      }
+    };
+    setLogger({
+      debug: progress,
+      info: progress,
+      warning: (message: string) => io.stderr(`warning: ${message}\n`),
+    });
+
+    // Group paths are relative to the repository root, as in the action
+    process.chdir(getRepositoryRoot());
+    const hashCache: HashCache | undefined = options.hashCacheFile ? readHashCache(options.hashCacheFile) : undefined;
+    const result: FilterResult = await filterDirectories({
+      groups: options.groups,
+      changes: options.changes,
+      hashCache,
+    });
+    if (options.codeownersFile !== undefined) {
+      const rules: CodeownersRule[] = loadCodeowners(options.codeownersFile);
+      for (const report of result.reports) {
+        report.owners = getDirectoryOwners(rules, report.group, report.result);
+      }
+    }
+
+    const outputs: ActionOutputs = buildOutputs(result.reports, {
+      configMode: options.configMode,
+      listSeparator: options.listSeparator,
+      changedFilesDir: options.changedFilesDir,
+    });
+
+    if (options.hashCacheFile && hashCache) {
+      writeHashCache(options.hashCacheFile, hashCache, getHashCacheEntries(result.reports));
+    }
+
+    io.stdout(`${JSON.stringify(outputs, null, 2)}\n`);
+    return 0;
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    io.stderr(`filter-dir: ${errorMessage}\n`);
+    return 1;
+  }
+}
+
+// Only run if this is the entry point (not during testing)
+if (process.env.NODE_ENV !== 'test') {
+  runCli(process.argv.slice(2)).then((exitCode: number) => {
+    process.exitCode = exitCode;
+  });
+}
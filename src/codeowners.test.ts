@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as github from '@actions/github'
+import {
+  findOwners,
+  getAllOwners,
+  getDirectoryOwners,
+  parseCodeowners,
+  requestOwnerReviews
+} from './codeowners'
+import { createGroupConfig } from './config'
+import type { GitHubContext } from './changes'
+import type { GroupResult } from './selection'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+
+const mockGithub = vi.mocked(github)
+
+const CODEOWNERS = `
+# Default owners
+*                 @acme/platform
+/apps/            @acme/apps
+/apps/web/        @alice @acme/frontend
+*.sql             @acme/dba  # inline comment
+docs/*            @writer
+/apps/legacy/
+`
+
+function createResult(result: Partial<GroupResult>): GroupResult {
+  return {
+    directories: [],
+    reasons: new Map(),
+    globalTriggers: [],
+    changedFiles: new Map(),
+    fileChanges: new Map(),
+    deletedDirectories: [],
+    subdirectories: [],
+    hashes: new Map(),
+    thresholdsExceeded: [],
+    ...result
+  }
+}
+
+describe('codeowners', () => {
+  const rules = parseCodeowners(CODEOWNERS)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('findOwners', () => {
+    it('should use the last matching rule', () => {
+      expect(findOwners(rules, 'README.md')).toEqual(['@acme/platform'])
+      expect(findOwners(rules, 'apps/api/index.ts')).toEqual(['@acme/apps'])
+      expect(findOwners(rules, 'apps/web/index.ts')).toEqual(['@alice', '@acme/frontend'])
+      expect(findOwners(rules, 'db/schema.sql')).toEqual(['@acme/dba'])
+    })
+
+    it('should clear ownership for rules without owners', () => {
+      expect(findOwners(rules, 'apps/legacy/index.ts')).toEqual([])
+    })
+
+    it('should only match files directly inside for trailing "/*" patterns', () => {
+      expect(findOwners(rules, 'docs/intro.md')).toEqual(['@writer'])
+      expect(findOwners(rules, 'docs/guides/setup.md')).toEqual(['@acme/platform'])
+    })
+
+    it('should match directories', () => {
+      expect(findOwners(rules, 'apps/web', true)).toEqual(['@alice', '@acme/frontend'])
+    })
+  })
+
+  describe('getDirectoryOwners', () => {
+    it('should combine the owners of each directory and its changed files', () => {
+      const result = createResult({
+        directories: ['api', 'web'],
+        changedFiles: new Map([['api', ['apps/api/index.ts', 'apps/api/migrations/001.sql']]])
+      })
+
+      const owners = getDirectoryOwners(rules, createGroupConfig({ targetParentPath: 'apps' }), result)
+
+      expect(owners).toEqual(new Map([
+        ['api', ['@acme/apps', '@acme/dba']],
+        ['web', ['@alice', '@acme/frontend']]
+      ]))
+    })
+  })
+
+  describe('getAllOwners', () => {
+    it('should list each owner once across groups', () => {
+      const group = createGroupConfig({ targetParentPath: 'apps' })
+      const result = createResult({})
+
+      expect(getAllOwners([
+        { group, result, owners: new Map([['api', ['@acme/apps']], ['web', ['@alice', '@acme/apps']]]) },
+        { group, result }
+      ])).toEqual(['@acme/apps', '@alice'])
+    })
+  })
+
+  describe('requestOwnerReviews', () => {
+    const context: GitHubContext = {
+      repo: { owner: 'acme', repo: 'monorepo' },
+      payload: { pull_request: { number: 7, user: { login: 'Alice' } } }
+    }
+
+    it('should request users and teams, skipping the author and emails', async () => {
+      const requestReviewers = vi.fn().mockResolvedValue({})
+      mockGithub.getOctokit.mockReturnValue({ rest: { pulls: { requestReviewers } } } as any)
+
+      await requestOwnerReviews('token', context, ['@alice', '@bob', '@acme/frontend', 'carol@example.com'])
+
+      expect(requestReviewers).toHaveBeenCalledWith({
+        owner: 'acme',
+        repo: 'monorepo',
+        pull_number: 7,
+        reviewers: ['bob'],
+        team_reviewers: ['frontend']
+      })
+    })
+
+    it('should not call the API without reviewers or outside pull requests', async () => {
+      await requestOwnerReviews('token', context, ['@alice'])
+      await requestOwnerReviews('token', { ...context, payload: {} }, ['@bob'])
+
+      expect(mockGithub.getOctokit).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import * as github from "@actions/github";
+import * as fs from "fs";
+import * as path from "path";
+import { requestWithRetry } from "./api";
+import { log } from "./log";
+import { compilePattern, patternMatches, type PathPattern } from "./matcher";
+import { toRepoPath } from "./paths";
+import { getParentRepoPath, type GroupResult } from "./selection";
+import type { GitHubContext } from "./changes";
+import type { GroupConfig } from "./config";
+import type { GroupReport } from "./report";
+
+// Where GitHub looks for the file, in order
+const CODEOWNERS_LOCATIONS: string[] = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+
+export interface CodeownersRule {
+  pattern: PathPattern;
+  owners: string[];
+}
+
+/**
+ * Parses a CODEOWNERS file. Each line is a gitignore-style pattern followed
+ * by owners; a pattern without owners removes ownership of its paths.
+ */
+export function parseCodeowners(text: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+
+  text.split(/\r?\n/).forEach((line: string, index: number) => {
+    const tokens: string[] = line.trim().split(/\s+/);
+    const commentStart: number = tokens.findIndex((token: string) => token.startsWith("#"));
+    const [patternText, ...owners] = commentStart === -1 ? tokens : tokens.slice(0, commentStart);
+
+    if (!patternText) {
+      return;
+    }
+
+    const pattern: PathPattern | null = compilePattern(patternText);
+    if (!pattern || pattern.negated) {
+      log.warning(`CODEOWNERS line ${index + 1}: unsupported pattern ${patternText}`);
+      return;
+    }
+
+    rules.push({ pattern, owners });
+  });
+
+  return rules;
+}
+
+/**
+ * Loads CODEOWNERS rules from the given file, or from the first location
+ * GitHub reads it from when none is given.
+ */
+export function loadCodeowners(codeownersFile: string = ""): CodeownersRule[] {
+  if (codeownersFile && !fs.existsSync(codeownersFile)) {
+    throw new Error(`CODEOWNERS file does not exist: ${codeownersFile}`);
+  }
+
+  const file: string | undefined = codeownersFile || CODEOWNERS_LOCATIONS
+    .map((location: string) => path.join(process.cwd(), location))
+    .find((location: string) => fs.existsSync(location));
+  if (!file) {
+    log.warning(`No CODEOWNERS file found in ${CODEOWNERS_LOCATIONS.join(", ")}`);
+    return [];
+  }
+
+  log.info(`Reading code owners from ${file}`);
+  return parseCodeowners(fs.readFileSync(file, "utf8"));
+}
+
+function ruleMatches(rule: CodeownersRule, file: string, isDirectory: boolean): boolean {
+  // Unlike .gitignore, "docs/*" only owns files directly inside docs
+  if (rule.pattern.source.endsWith("/*")) {
+    return !isDirectory && rule.pattern.regex.test(file);
+  }
+
+  return patternMatches(rule.pattern, file, isDirectory);
+}
+
+/**
+ * Returns the owners of a repository path. The last matching rule wins.
+ */
+export function findOwners(rules: CodeownersRule[], file: string, isDirectory: boolean = false): string[] {
+  let owners: string[] = [];
+
+  for (const rule of rules) {
+    if (ruleMatches(rule, file, isDirectory)) {
+      owners = rule.owners;
+    }
+  }
+
+  return owners;
+}
+
+/**
+ * Maps each selected directory to the owners of the directory itself and of
+ * its changed files, in order of first appearance.
+ */
+export function getDirectoryOwners(
+  rules: CodeownersRule[],
+  group: GroupConfig,
+  result: GroupResult
+): Map<string, string[]> {
+  const parentPath: string = getParentRepoPath(group);
+
+  return new Map(result.directories.map((dir: string) => {
+    const owners: Set<string> = new Set(findOwners(rules, toRepoPath(parentPath, dir), true));
+    for (const file of result.changedFiles.get(dir) ?? []) {
+      findOwners(rules, file).forEach((owner: string) => owners.add(owner));
+    }
+
+    return [dir, [...owners]];
+  }));
+}
+
+export function getAllOwners(reports: GroupReport[]): string[] {
+  const owners: Set<string> = new Set();
+  for (const report of reports) {
+    for (const dirOwners of report.owners?.values() ?? []) {
+      dirOwners.forEach((owner: string) => owners.add(owner));
+    }
+  }
+
+  return [...owners];
+}
+
+/**
+ * Requests reviews on the pull request from the given owners. Users and
+ * teams are requested; email owners and the pull request author are skipped.
+ */
+export async function requestOwnerReviews(token: string, context: GitHubContext, owners: string[]): Promise<void> {
+  const pullRequest = context.payload.pull_request;
+  if (!pullRequest) {
+    log.info("Not a pull request; skipping review requests");
+    return;
+  }
+
+  const author: string = pullRequest.user?.login.toLowerCase() ?? "";
+  const handles: string[] = owners.filter((owner: string) => owner.startsWith("@")).map((owner: string) => owner.slice(1));
+  const reviewers: string[] = handles.filter((handle: string) => !handle.includes("/") && handle.toLowerCase() !== author);
+  const teamReviewers: string[] = handles
+    .filter((handle: string) => handle.includes("/"))
+    .map((handle: string) => handle.slice(handle.indexOf("/") + 1));
+
+  if (reviewers.length === 0 && teamReviewers.length === 0) {
+    log.info("No code owners to request reviews from");
+    return;
+  }
+
+  const octokit = github.getOctokit(token);
+  await requestWithRetry(() => octokit.rest.pulls.requestReviewers({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    pull_number: pullRequest.number,
+    reviewers,
+    team_reviewers: teamReviewers,
+  }), {
+    action: "request reviews",
+    permission: "pull-requests: write",
+    notFound: `Pull request #${pullRequest.number} was not found in ${context.repo.owner}/${context.repo.repo}`,
+  });
+
+  log.info(`Requested reviews from ${[...reviewers, ...teamReviewers.map((team: string) => `team ${team}`)].join(", ")}`);
+}
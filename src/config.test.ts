@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  loadConfigFile,
+  parseConfig,
+  parseDepth,
+  parseGroupConfig,
+  parseListInput
+} from './config'
+
+describe('config', () => {
+  describe('parseListInput', () => {
+    it('should split on commas and newlines', () => {
+      expect(parseListInput('package.json, go.mod\nDockerfile\n\n')).toEqual(['package.json', 'go.mod', 'Dockerfile'])
+    })
+  })
+
+  describe('parseDepth', () => {
+    it('should default to direct children', () => {
+      expect(parseDepth('')).toBe(1)
+    })
+
+    it('should parse positive integers', () => {
+      expect(parseDepth(' 3 ')).toBe(3)
+    })
+
+    it('should reject invalid depths', () => {
+      expect(() => parseDepth('0')).toThrow('Invalid depth: 0')
+      expect(() => parseDepth('1.5')).toThrow('Invalid depth: 1.5')
+      expect(() => parseDepth('deep')).toThrow('Invalid depth: deep')
+    })
+  })
+
+  describe('parseGroupConfig', () => {
+    it('should apply defaults for omitted options', () => {
+      expect(parseGroupConfig('apps', { 'target-parent-path': 'apps' })).toEqual({
+        name: 'apps',
+        targetParentPath: 'apps',
+        depth: 1,
+        includePaths: [],
+        excludePaths: [],
+        globalPaths: [],
+        markerFiles: [],
+        ignoreRemoved: false,
+        skipHidden: false,
+        respectGitignore: false,
+        dependencySources: [],
+        dependencyMapFile: undefined,
+        caseInsensitive: false,
+        contentHash: false,
+        labelTemplate: '',
+        maxDirectories: 0,
+        maxChangedFiles: 0,
+        maxDirectoriesPercent: 0,
+        thresholdFallback: 'all',
+        sort: 'none',
+        batchSize: 0
+      })
+    })
+
+    it('should accept lists as arrays or strings', () => {
+      const group = parseGroupConfig('apps', {
+        'target-parent-path': 'apps',
+        depth: 2,
+        'include-paths': ['apps/**', '!**/*.md'],
+        'exclude-paths': '*.test.ts\n# comment\n*.snap',
+        'marker-files': 'package.json,go.mod',
+        'skip-hidden-directories': true,
+        'case-insensitive': true,
+        'label-template': 'svc:{name}',
+        'dependency-sources': ['workspaces'],
+        'dependency-map': '.github/deps.json'
+      })
+
+      expect(group).toMatchObject({
+        depth: 2,
+        includePaths: ['apps/**', '!**/*.md'],
+        excludePaths: ['*.test.ts', '*.snap'],
+        markerFiles: ['package.json', 'go.mod'],
+        skipHidden: true,
+        caseInsensitive: true,
+        labelTemplate: 'svc:{name}',
+        dependencySources: ['workspaces'],
+        dependencyMapFile: '.github/deps.json'
+      })
+    })
+
+    it('should require a target parent path', () => {
+      expect(() => parseGroupConfig('apps', {}))
+        .toThrow('groups.apps.target-parent-path must be a non-empty string')
+    })
+
+    it('should reject unknown keys', () => {
+      expect(() => parseGroupConfig('apps', { 'target-parent-path': 'apps', 'exclude': ['*.md'] }))
+        .toThrow('groups.apps.exclude is not a known option')
+    })
+
+    it('should point at invalid values', () => {
+      expect(() => parseGroupConfig('apps', { 'target-parent-path': 'apps', depth: 0 }))
+        .toThrow('groups.apps.depth must be a positive integer')
+      expect(() => parseGroupConfig('apps', { 'target-parent-path': 'apps', 'respect-gitignore': 'yes' }))
+        .toThrow('groups.apps.respect-gitignore must be true or false')
+      expect(() => parseGroupConfig('apps', { 'target-parent-path': 'apps', 'include-paths': ['a', 1] }))
+        .toThrow('groups.apps.include-paths[1] must be a string')
+      expect(() => parseGroupConfig('apps', { 'target-parent-path': 'apps', 'dependency-sources': 'bazel' }))
+        .toThrow('groups.apps.dependency-sources: Invalid dependency source: bazel')
+      expect(() => parseGroupConfig('apps', { 'target-parent-path': 'apps', 'max-directories': -1 }))
+        .toThrow('groups.apps.max-directories must be a non-negative integer')
+      expect(() => parseGroupConfig('apps', { 'target-parent-path': 'apps', 'max-directories-percent': 150 }))
+        .toThrow('groups.apps.max-directories-percent must be a number from 0 to 100')
+      expect(() => parseGroupConfig('apps', { 'target-parent-path': 'apps', 'threshold-fallback': 'none' }))
+        .toThrow('groups.apps.threshold-fallback: Invalid threshold-fallback: none (expected "all" or "full")')
+      expect(() => parseGroupConfig('apps', { 'target-parent-path': 'apps', sort: 'size' }))
+        .toThrow('groups.apps.sort: Invalid sort: size (expected one of none, alphabetical, changed-files, topological)')
+    })
+
+    it('should reject group names that are not valid output names', () => {
+      expect(() => parseGroupConfig('my apps', { 'target-parent-path': 'apps' }))
+        .toThrow('groups.my apps: group names may only contain letters, digits, "-" and "_"')
+      expect(() => parseGroupConfig('reasons', { 'target-parent-path': 'apps' }))
+        .toThrow('groups.reasons: "reasons" is reserved for another output')
+      expect(() => parseGroupConfig('changed-api', { 'target-parent-path': 'apps' }))
+        .toThrow('groups.changed-api: "changed-api" is reserved for another output')
+    })
+  })
+
+  describe('parseConfig', () => {
+    it('should return groups in declaration order', () => {
+      const groups = parseConfig({
+        groups: {
+          packages: { 'target-parent-path': 'packages' },
+          apps: { 'target-parent-path': 'apps' }
+        }
+      })
+
+      expect(groups.map(group => group.name)).toEqual(['packages', 'apps'])
+    })
+
+    it('should require at least one group', () => {
+      expect(() => parseConfig({ groups: {} })).toThrow('groups must be an object with at least one named group')
+      expect(() => parseConfig(null)).toThrow('the config file must contain an object with a "groups" key')
+    })
+
+    it('should reject unknown top-level keys', () => {
+      expect(() => parseConfig({ groups: { apps: { 'target-parent-path': 'apps' } }, group: {} }))
+        .toThrow('group is not a known option (expected "groups")')
+    })
+  })
+
+  describe('loadConfigFile', () => {
+    let root: string
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-dir-config-'))
+    })
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true })
+    })
+
+    it('should load YAML config files', () => {
+      const configPath = path.join(root, 'filter-dir.yml')
+      fs.writeFileSync(configPath, [
+        'groups:',
+        '  apps:',
+        '    target-parent-path: apps',
+        '    depth: 2',
+        '    exclude-paths:',
+        '      - "*.md"',
+        '  infra:',
+        '    target-parent-path: infra'
+      ].join('\n'))
+
+      const groups = loadConfigFile(configPath)
+
+      expect(groups).toHaveLength(2)
+      expect(groups[0]).toMatchObject({ name: 'apps', depth: 2, excludePaths: ['*.md'] })
+      expect(groups[1]).toMatchObject({ name: 'infra', targetParentPath: 'infra' })
+    })
+
+    it('should load JSON config files', () => {
+      const configPath = path.join(root, 'filter-dir.json')
+      fs.writeFileSync(configPath, JSON.stringify({ groups: { apps: { 'target-parent-path': 'apps' } } }))
+
+      expect(loadConfigFile(configPath)[0].name).toBe('apps')
+    })
+
+    it('should prefix validation errors with the file path', () => {
+      const configPath = path.join(root, 'filter-dir.yml')
+      fs.writeFileSync(configPath, 'groups:\n  apps:\n    depth: 2\n')
+
+      expect(() => loadConfigFile(configPath))
+        .toThrow(`Invalid config file ${configPath}: groups.apps.target-parent-path must be a non-empty string`)
+    })
+
+    it('should report YAML syntax errors', () => {
+      const configPath = path.join(root, 'filter-dir.yml')
+      fs.writeFileSync(configPath, 'groups: [unclosed\n')
+
+      expect(() => loadConfigFile(configPath)).toThrow(`Invalid config file ${configPath}:`)
+    })
+
+    it('should throw when the file does not exist', () => {
+      expect(() => loadConfigFile(path.join(root, 'missing.yml')))
+        .toThrow('Config file does not exist')
+    })
+  })
+})
@@ -0,0 +1,405 @@
+import * as fs from "fs";
+import { parse as parseYaml } from "yaml";
+import { parsePatternList } from "./matcher";
+import { parseDependencySources, type DependencySource } from "./dependencies";
+
+const GROUP_NAME_PATTERN: RegExp = /^[A-Za-z0-9_-]+$/;
+const RESERVED_GROUP_NAMES: string[] = [
+  "filtered-dir-path",
+  "reasons",
+  "global-trigger-files",
+  "groups",
+  "matrix",
+  "has-changes",
+  "count",
+  "filtered-dir-list",
+  "filtered-paths",
+  "deleted-dirs",
+  "mode",
+  "changes-by-dir",
+  "hashes",
+  "owners",
+  "all-owners",
+  "labels",
+  "all-dirs",
+  "full",
+  "thresholds-exceeded",
+  "batches",
+];
+
+const SORT_ORDERS: SortOrder[] = ["none", "alphabetical", "changed-files", "topological"];
+
+// What to do when a group crosses one of its thresholds: select every
+// directory, or select none and set the "full" output
+export type ThresholdFallback = "all" | "full";
+
+// Order of the selected directories: as discovered, by name, by number of
+// changed files (most first) or with dependencies before their dependents
+export type SortOrder = "none" | "alphabetical" | "changed-files" | "topological";
+
+export interface GroupConfig {
+  name: string;
+  targetParentPath: string;
+  depth: number;
+  includePaths: string[];
+  excludePaths: string[];
+  globalPaths: string[];
+  markerFiles: string[];
+  ignoreRemoved: boolean;
+  skipHidden: boolean;
+  respectGitignore: boolean;
+  dependencySources: DependencySource[];
+  dependencyMapFile?: string;
+  caseInsensitive: boolean;
+  contentHash: boolean;
+  // Pull request label for each selected directory, e.g. "dir:{name}"
+  labelTemplate: string;
+  // Thresholds for falling back to a full run; 0 disables a threshold
+  maxDirectories: number;
+  maxChangedFiles: number;
+  maxDirectoriesPercent: number;
+  thresholdFallback: ThresholdFallback;
+  sort: SortOrder;
+  // Directories per entry of the batches output; 0 puts all in one batch
+  batchSize: number;
+}
+
+type GroupKey =
+  | "target-parent-path"
+  | "depth"
+  | "include-paths"
+  | "exclude-paths"
+  | "global-paths"
+  | "marker-files"
+  | "ignore-removed"
+  | "skip-hidden-directories"
+  | "respect-gitignore"
+  | "dependency-sources"
+  | "dependency-map"
+  | "case-insensitive"
+  | "content-hash"
+  | "label-template"
+  | "max-directories"
+  | "max-changed-files"
+  | "max-directories-percent"
+  | "threshold-fallback"
+  | "sort"
+  | "batch-size";
+
+const GROUP_KEYS: GroupKey[] = [
+  "target-parent-path",
+  "depth",
+  "include-paths",
+  "exclude-paths",
+  "global-paths",
+  "marker-files",
+  "ignore-removed",
+  "skip-hidden-directories",
+  "respect-gitignore",
+  "dependency-sources",
+  "dependency-map",
+  "case-insensitive",
+  "content-hash",
+  "label-template",
+  "max-directories",
+  "max-changed-files",
+  "max-directories-percent",
+  "threshold-fallback",
+  "sort",
+  "batch-size",
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(value: unknown, key: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${key} must be a non-empty string`);
+  }
+
+  return value.trim();
+}
+
+function readStringList(value: unknown, key: string, parse: (input: string) => string[]): string[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (typeof value === "string") {
+    return parse(value);
+  }
+
+  if (!Array.isArray(value)) {
+    throw new Error(`${key} must be a string or a list of strings`);
+  }
+
+  return value.map((item: unknown, index: number) => {
+    if (typeof item !== "string") {
+      throw new Error(`${key}[${index}] must be a string`);
+    }
+    return item.trim();
+  }).filter(item => item.length > 0);
+}
+
+function readBoolean(value: unknown, key: string): boolean {
+  if (value === undefined) {
+    return false;
+  }
+
+  if (typeof value !== "boolean") {
+    throw new Error(`${key} must be true or false`);
+  }
+
+  return value;
+}
+
+function readDepth(value: unknown, key: string): number {
+  if (value === undefined) {
+    return 1;
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${key} must be a positive integer`);
+  }
+
+  return value;
+}
+
+function readLimit(value: unknown, key: string): number {
+  if (value === undefined) {
+    return 0;
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${key} must be a non-negative integer`);
+  }
+
+  return value;
+}
+
+function readPercent(value: unknown, key: string): number {
+  if (value === undefined) {
+    return 0;
+  }
+
+  if (typeof value !== "number" || value < 0 || value > 100) {
+    throw new Error(`${key} must be a number from 0 to 100`);
+  }
+
+  return value;
+}
+
+export function parseListInput(input: string): string[] {
+  return input
+    .split(/[,\n]/)
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+export function parseDepth(input: string): number {
+  if (!input.trim()) {
+    return 1;
+  }
+
+  const depth: number = Number(input.trim());
+  if (!Number.isInteger(depth) || depth < 1) {
+    throw new Error(`Invalid depth: ${input} (expected a positive integer)`);
+  }
+
+  return depth;
+}
+
+export function parseLimit(input: string, name: string): number {
+  if (!input.trim()) {
+    return 0;
+  }
+
+  const limit: number = Number(input.trim());
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`Invalid ${name}: ${input} (expected a non-negative integer)`);
+  }
+
+  return limit;
+}
+
+export function parsePercent(input: string, name: string): number {
+  if (!input.trim()) {
+    return 0;
+  }
+
+  const percent: number = Number(input.trim());
+  if (Number.isNaN(percent) || percent < 0 || percent > 100) {
+    throw new Error(`Invalid ${name}: ${input} (expected a number from 0 to 100)`);
+  }
+
+  return percent;
+}
+
+export function parseThresholdFallback(input: string): ThresholdFallback {
+  const value: string = input.trim().toLowerCase() || "all";
+
+  if (value !== "all" && value !== "full") {
+    throw new Error(`Invalid threshold-fallback: ${input} (expected "all" or "full")`);
+  }
+
+  return value;
+}
+
+export function parseSortOrder(input: string): SortOrder {
+  const value: string = input.trim().toLowerCase() || "none";
+
+  if (!SORT_ORDERS.includes(value as SortOrder)) {
+    throw new Error(`Invalid sort: ${input} (expected one of ${SORT_ORDERS.join(", ")})`);
+  }
+
+  return value as SortOrder;
+}
+
+/**
+ * Returns a group with every option at its default, overridden by the given
+ * options.
+ */
+export function createGroupConfig(
+  options: Partial<GroupConfig> & Pick<GroupConfig, "targetParentPath">
+): GroupConfig {
+  return {
+    name: "default",
+    depth: 1,
+    includePaths: [],
+    excludePaths: [],
+    globalPaths: [],
+    markerFiles: [],
+    ignoreRemoved: false,
+    skipHidden: false,
+    respectGitignore: false,
+    dependencySources: [],
+    caseInsensitive: false,
+    contentHash: false,
+    labelTemplate: "",
+    maxDirectories: 0,
+    maxChangedFiles: 0,
+    maxDirectoriesPercent: 0,
+    thresholdFallback: "all",
+    sort: "none",
+    batchSize: 0,
+    ...options,
+  };
+}
+
+export function parseGroupConfig(name: string, value: unknown): GroupConfig {
+  const key: string = `groups.${name}`;
+
+  if (!GROUP_NAME_PATTERN.test(name)) {
+    throw new Error(`${key}: group names may only contain letters, digits, "-" and "_"`);
+  }
+
+  if (RESERVED_GROUP_NAMES.includes(name) || name.startsWith("changed-")) {
+    throw new Error(`${key}: "${name}" is reserved for another output`);
+  }
+
+  if (!isObject(value)) {
+    throw new Error(`${key} must be an object`);
+  }
+
+  for (const groupKey of Object.keys(value)) {
+    if (!GROUP_KEYS.includes(groupKey as GroupKey)) {
+      throw new Error(`${key}.${groupKey} is not a known option (expected one of ${GROUP_KEYS.join(", ")})`);
+    }
+  }
+
+  let dependencySources: DependencySource[];
+  try {
+    dependencySources = parseDependencySources(
+      readStringList(value["dependency-sources"], `${key}.dependency-sources`, parseListInput)
+    );
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    throw new Error(`${key}.dependency-sources: ${errorMessage}`);
+  }
+
+  let thresholdFallback: ThresholdFallback;
+  try {
+    thresholdFallback = parseThresholdFallback(
+      value["threshold-fallback"] === undefined ? "" : readString(value["threshold-fallback"], `${key}.threshold-fallback`)
+    );
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    throw new Error(`${key}.threshold-fallback: ${errorMessage}`);
+  }
+
+  let sort: SortOrder;
+  try {
+    sort = parseSortOrder(value["sort"] === undefined ? "" : readString(value["sort"], `${key}.sort`));
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    throw new Error(`${key}.sort: ${errorMessage}`);
+  }
+
+  return {
+    name,
+    targetParentPath: readString(value["target-parent-path"], `${key}.target-parent-path`),
+    depth: readDepth(value["depth"], `${key}.depth`),
+    includePaths: readStringList(value["include-paths"], `${key}.include-paths`, parsePatternList),
+    excludePaths: readStringList(value["exclude-paths"], `${key}.exclude-paths`, parsePatternList),
+    globalPaths: readStringList(value["global-paths"], `${key}.global-paths`, parsePatternList),
+    markerFiles: readStringList(value["marker-files"], `${key}.marker-files`, parseListInput),
+    ignoreRemoved: readBoolean(value["ignore-removed"], `${key}.ignore-removed`),
+    skipHidden: readBoolean(value["skip-hidden-directories"], `${key}.skip-hidden-directories`),
+    respectGitignore: readBoolean(value["respect-gitignore"], `${key}.respect-gitignore`),
+    dependencySources,
+    dependencyMapFile: value["dependency-map"] === undefined
+      ? undefined
+      : readString(value["dependency-map"], `${key}.dependency-map`),
+    caseInsensitive: readBoolean(value["case-insensitive"], `${key}.case-insensitive`),
+    contentHash: readBoolean(value["content-hash"], `${key}.content-hash`),
+    labelTemplate: value["label-template"] === undefined
+      ? ""
+      : readString(value["label-template"], `${key}.label-template`),
+    maxDirectories: readLimit(value["max-directories"], `${key}.max-directories`),
+    maxChangedFiles: readLimit(value["max-changed-files"], `${key}.max-changed-files`),
+    maxDirectoriesPercent: readPercent(value["max-directories-percent"], `${key}.max-directories-percent`),
+    thresholdFallback,
+    sort,
+    batchSize: readLimit(value["batch-size"], `${key}.batch-size`),
+  };
+}
+
+/**
+ * Validates a parsed config document and returns its groups in declaration
+ * order.
+ */
+export function parseConfig(document: unknown): GroupConfig[] {
+  if (!isObject(document)) {
+    throw new Error("the config file must contain an object with a \"groups\" key");
+  }
+
+  for (const key of Object.keys(document)) {
+    if (key !== "groups") {
+      throw new Error(`${key} is not a known option (expected "groups")`);
+    }
+  }
+
+  const groups: unknown = document["groups"];
+  if (!isObject(groups) || Object.keys(groups).length === 0) {
+    throw new Error("groups must be an object with at least one named group");
+  }
+
+  return Object.entries(groups).map(([name, value]) => parseGroupConfig(name, value));
+}
+
+export function loadConfigFile(configPath: string): GroupConfig[] {
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Config file does not exist: ${configPath}`);
+  }
+
+  const text: string = fs.readFileSync(configPath, "utf8");
+
+  try {
+    // JSON is a subset of YAML, so a single parser handles both formats
+    return parseConfig(parseYaml(text));
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid config file ${configPath}: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  addDependencyMap,
+  buildDependencyGraph,
+  findDependentDirectories,
+  findWorkspacePackages,
+  getTransitiveDependencies,
+  parseDependencySources,
+  parseJsonc,
+  sortTopologically,
+  type DependencyGraph
+} from './dependencies'
+import { writeFile } from './test-helpers'
+
+function writeJson(root: string, file: string, value: unknown): void {
+  writeFile(root, file, JSON.stringify(value, null, 2))
+}
+
+function edges(graph: DependencyGraph): Record<string, string[]> {
+  return Object.fromEntries([...graph].map(([dir, deps]) => [dir, [...deps].sort()]))
+}
+
+describe('dependencies', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-dir-deps-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  describe('parseDependencySources', () => {
+    it('should accept known sources case-insensitively', () => {
+      expect(parseDependencySources(['Workspaces', 'tsconfig'])).toEqual(['workspaces', 'tsconfig'])
+    })
+
+    it('should reject unknown sources', () => {
+      expect(() => parseDependencySources(['bazel'])).toThrow('Invalid dependency source: bazel')
+    })
+  })
+
+  describe('parseJsonc', () => {
+    it('should strip comments and trailing commas outside strings', () => {
+      const text = `{
+        // line comment
+        "url": "https://example.com/*not-a-comment*/",
+        /* block
+           comment */
+        "items": [1, 2,],
+      }`
+
+      expect(parseJsonc(text)).toEqual({
+        url: 'https://example.com/*not-a-comment*/',
+        items: [1, 2]
+      })
+    })
+  })
+
+  describe('findWorkspacePackages', () => {
+    it('should map package names to directories from npm workspaces', () => {
+      writeJson(root, 'package.json', { workspaces: ['apps/*', 'libs/*', '!libs/legacy'] })
+      writeJson(root, 'apps/web/package.json', { name: '@acme/web' })
+      writeJson(root, 'libs/core/package.json', { name: '@acme/core' })
+      writeJson(root, 'libs/legacy/package.json', { name: '@acme/legacy' })
+      writeJson(root, 'apps/web/node_modules/@acme/core/package.json', { name: '@acme/core' })
+
+      const packages = findWorkspacePackages(root)
+
+      expect(Object.fromEntries(packages)).toEqual({
+        '@acme/web': 'apps/web',
+        '@acme/core': 'libs/core'
+      })
+    })
+
+    it('should read pnpm workspace packages', () => {
+      writeFile(root, 'pnpm-workspace.yaml', 'packages:\n  - "apps/**"\n  - libs/core # shared\nonlyBuiltDependencies:\n  - esbuild\n')
+      writeJson(root, 'apps/team/web/package.json', { name: 'web' })
+      writeJson(root, 'libs/core/package.json', { name: 'core' })
+
+      expect(Object.fromEntries(findWorkspacePackages(root))).toEqual({
+        web: 'apps/team/web',
+        core: 'libs/core'
+      })
+    })
+
+    it('should read pnpm workspace packages written as a flow sequence', () => {
+      writeFile(root, 'pnpm-workspace.yaml', "packages: ['apps/*', 'libs/*']\n")
+      writeJson(root, 'apps/api/package.json', { name: 'api' })
+      writeJson(root, 'libs/core/package.json', { name: 'core' })
+
+      expect(Object.fromEntries(findWorkspacePackages(root))).toEqual({
+        api: 'apps/api',
+        core: 'libs/core'
+      })
+    })
+
+    it('should return no packages without workspaces', () => {
+      writeJson(root, 'package.json', { name: 'single' })
+
+      expect(findWorkspacePackages(root).size).toBe(0)
+    })
+  })
+
+  describe('buildDependencyGraph', () => {
+    it('should add edges for workspace dependencies', () => {
+      writeJson(root, 'package.json', { workspaces: ['apps/*', 'libs/*'] })
+      writeJson(root, 'apps/web/package.json', {
+        name: 'web',
+        dependencies: { ui: 'workspace:*', react: '^19.0.0' }
+      })
+      writeJson(root, 'libs/ui/package.json', { name: 'ui', devDependencies: { core: '*' } })
+      writeJson(root, 'libs/core/package.json', { name: 'core' })
+
+      const graph = buildDependencyGraph(root, { sources: ['workspaces'], units: ['apps/web'] })
+
+      expect(edges(graph)).toEqual({
+        'apps/web': ['libs/ui'],
+        'libs/ui': ['libs/core']
+      })
+    })
+
+    it('should follow tsconfig project references from the units', () => {
+      writeFile(root, 'apps/api/tsconfig.json', `{
+        // project references
+        "references": [{ "path": "../../libs/core" }, { "path": "../../libs/util/tsconfig.build.json" },]
+      }`)
+      writeJson(root, 'libs/core/tsconfig.json', { references: [{ path: '../shared' }] })
+
+      const graph = buildDependencyGraph(root, { sources: ['tsconfig'], units: ['apps/api'] })
+
+      expect(edges(graph)).toEqual({
+        'apps/api': ['libs/core', 'libs/util'],
+        'libs/core': ['libs/shared']
+      })
+    })
+
+    it('should read an explicit dependency map', () => {
+      writeJson(root, 'deps.json', { 'apps/web': ['libs/ui/', './libs/core'] })
+
+      const graph = buildDependencyGraph(root, {
+        sources: [],
+        mapFile: path.join(root, 'deps.json'),
+        units: []
+      })
+
+      expect(edges(graph)).toEqual({ 'apps/web': ['libs/core', 'libs/ui'] })
+    })
+  })
+
+  describe('addDependencyMap', () => {
+    it('should throw when the map file does not exist', () => {
+      expect(() => addDependencyMap(new Map(), path.join(root, 'missing.json')))
+        .toThrow('Dependency map file does not exist')
+    })
+
+    it('should reject maps with invalid values', () => {
+      writeJson(root, 'deps.json', { 'apps/web': 'libs/ui' })
+
+      expect(() => addDependencyMap(new Map(), path.join(root, 'deps.json')))
+        .toThrow('"apps/web" must be an array of directories')
+    })
+
+    it('should reject maps that are not objects', () => {
+      writeJson(root, 'deps.json', ['apps/web'])
+
+      expect(() => addDependencyMap(new Map(), path.join(root, 'deps.json')))
+        .toThrow('expected an object of directory -> dependency list')
+    })
+
+    it('should name the file when it is not valid JSON', () => {
+      writeFile(root, 'deps.json', '{"apps/web": ["libs/ui"]} }')
+      const mapFile = path.join(root, 'deps.json')
+
+      expect(() => addDependencyMap(new Map(), mapFile)).toThrow(`Invalid JSON in ${mapFile}: `)
+    })
+  })
+
+  describe('getTransitiveDependencies', () => {
+    it('should walk dependencies transitively and tolerate cycles', () => {
+      const graph: DependencyGraph = new Map([
+        ['a', new Set(['b'])],
+        ['b', new Set(['c'])],
+        ['c', new Set(['a', 'd'])]
+      ])
+
+      expect(getTransitiveDependencies(graph, 'a').sort()).toEqual(['b', 'c', 'd'])
+      expect(getTransitiveDependencies(graph, 'd')).toEqual([])
+    })
+  })
+
+  describe('sortTopologically', () => {
+    it('should put dependencies first, including through units outside the list', () => {
+      const graph: DependencyGraph = new Map([
+        ['apps/web', new Set(['libs/ui'])],
+        ['libs/ui', new Set(['libs/core'])],
+        ['apps/api', new Set(['libs/core'])]
+      ])
+
+      expect(sortTopologically(['apps/api', 'apps/web', 'libs/core'], graph))
+        .toEqual(['libs/core', 'apps/api', 'apps/web'])
+    })
+
+    it('should append units in a cycle in their given order', () => {
+      const graph: DependencyGraph = new Map([
+        ['a', new Set(['b'])],
+        ['b', new Set(['a'])]
+      ])
+
+      expect(sortTopologically(['b', 'a', 'c'], graph)).toEqual(['c', 'b', 'a'])
+    })
+  })
+
+  describe('findDependentDirectories', () => {
+    it('should select directories whose dependencies changed', () => {
+      const graph: DependencyGraph = new Map([
+        ['apps/web', new Set(['libs/ui'])],
+        ['apps/admin', new Set(['libs/ui', 'apps/web'])],
+        ['libs/ui', new Set(['libs/core'])]
+      ])
+
+      const result = findDependentDirectories(
+        ['web', 'admin', 'api'],
+        ['libs/core/src/index.ts', 'README.md'],
+        'apps',
+        graph
+      )
+
+      expect(Object.fromEntries(result)).toEqual({
+        web: ['libs/core'],
+        admin: ['libs/core']
+      })
+    })
+
+    it('should report every changed dependency', () => {
+      const graph: DependencyGraph = new Map([
+        ['apps/web', new Set(['libs/ui', 'libs/core'])]
+      ])
+
+      const result = findDependentDirectories(
+        ['web'],
+        ['libs/ui/button.tsx', 'libs/core/index.ts'],
+        'apps',
+        graph
+      )
+
+      expect(result.get('web')).toEqual(['libs/core', 'libs/ui'])
+    })
+  })
+})
@@ -0,0 +1,334 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { compilePattern, type PathPattern } from "./matcher";
+import { isPathInside, toRepoPath } from "./paths";
+
+const SKIPPED_DIRECTORIES: string[] = [".git", "node_modules"];
+const DEPENDENCY_FIELDS: string[] = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+
+export type DependencySource = "workspaces" | "tsconfig";
+
+// Repository-relative directory -> repository-relative directories it depends on
+export type DependencyGraph = Map<string, Set<string>>;
+
+export interface DependencyGraphOptions {
+  sources: DependencySource[];
+  mapFile?: string;
+  units: string[];
+}
+
+export function parseDependencySources(items: string[]): DependencySource[] {
+  return items.map((item: string) => {
+    const value: string = item.toLowerCase();
+
+    if (value !== "workspaces" && value !== "tsconfig") {
+      throw new Error(`Invalid dependency source: ${item} (expected "workspaces" or "tsconfig")`);
+    }
+
+    return value;
+  });
+}
+
+/**
+ * Parses JSON that may contain comments and trailing commas, as found in
+ * tsconfig files.
+ */
+export function parseJsonc(text: string): unknown {
+  let stripped: string = "";
+  let inString: boolean = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char: string = text[i];
+
+    if (inString) {
+      stripped += char;
+      if (char === "\\") {
+        stripped += text[++i] ?? "";
+      } else if (char === "\"") {
+        inString = false;
+      }
+    } else if (char === "\"") {
+      inString = true;
+      stripped += char;
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") {
+        i++;
+      }
+      stripped += "\n";
+    } else if (char === "/" && text[i + 1] === "*") {
+      const end: number = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      stripped += char;
+    }
+  }
+
+  return JSON.parse(stripped.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+function readJson(file: string): unknown {
+  try {
+    return parseJsonc(fs.readFileSync(file, "utf8"));
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON in ${file}: ${errorMessage}`);
+  }
+}
+
+function addEdge(graph: DependencyGraph, from: string, to: string): void {
+  if (!from || !to || from === to) {
+    return;
+  }
+
+  if (!graph.has(from)) {
+    graph.set(from, new Set());
+  }
+  graph.get(from)!.add(to);
+}
+
+function readPnpmWorkspacePackages(file: string): string[] {
+  let workspace: unknown;
+  try {
+    workspace = parseYaml(fs.readFileSync(file, "utf8"));
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid pnpm workspace file ${file}: ${errorMessage}`);
+  }
+
+  const packages: unknown = (workspace as { packages?: unknown } | null)?.packages;
+  return Array.isArray(packages)
+    ? packages.filter((pattern: unknown): pattern is string => typeof pattern === "string")
+    : [];
+}
+
+export function getWorkspacePatterns(repoRoot: string): string[] {
+  const pnpmWorkspace: string = path.join(repoRoot, "pnpm-workspace.yaml");
+  if (fs.existsSync(pnpmWorkspace)) {
+    return readPnpmWorkspacePackages(pnpmWorkspace);
+  }
+
+  const packageJson: string = path.join(repoRoot, "package.json");
+  if (!fs.existsSync(packageJson)) {
+    return [];
+  }
+
+  const { workspaces } = readJson(packageJson) as { workspaces?: string[] | { packages?: string[] } };
+  return (Array.isArray(workspaces) ? workspaces : workspaces?.packages) ?? [];
+}
+
+/**
+ * Returns a map of workspace package name -> repository-relative directory
+ * for every package.json directory matched by the workspace patterns.
+ */
+export function findWorkspacePackages(repoRoot: string): Map<string, string> {
+  const rules: { pattern: PathPattern; negated: boolean }[] = [];
+  for (const workspace of getWorkspacePatterns(repoRoot)) {
+    // Workspace patterns are always relative to the repository root
+    const pattern: PathPattern | null = compilePattern(`/${toRepoPath(workspace.replace(/^!/, ""))}`);
+    if (pattern) {
+      rules.push({ pattern, negated: workspace.startsWith("!") });
+    }
+  }
+
+  const packages: Map<string, string> = new Map();
+  if (rules.length === 0) {
+    return packages;
+  }
+
+  const walk = (relativeDir: string): void => {
+    const absoluteDir: string = path.join(repoRoot, relativeDir);
+
+    if (relativeDir) {
+      let included: boolean = false;
+      for (const rule of rules) {
+        if (rule.pattern.regex.test(relativeDir)) {
+          included = !rule.negated;
+        }
+      }
+
+      const packageJson: string = path.join(absoluteDir, "package.json");
+      if (included && fs.existsSync(packageJson)) {
+        const { name } = readJson(packageJson) as { name?: string };
+        if (name) {
+          packages.set(name, relativeDir);
+        }
+      }
+    }
+
+    for (const entry of fs.readdirSync(absoluteDir, { withFileTypes: true })) {
+      if (entry.isDirectory() && !SKIPPED_DIRECTORIES.includes(entry.name)) {
+        walk(relativeDir ? `${relativeDir}/${entry.name}` : entry.name);
+      }
+    }
+  };
+
+  walk("");
+
+  return packages;
+}
+
+export function addWorkspaceDependencies(graph: DependencyGraph, repoRoot: string): void {
+  const packages: Map<string, string> = findWorkspacePackages(repoRoot);
+
+  for (const dir of packages.values()) {
+    const manifest = readJson(path.join(repoRoot, dir, "package.json")) as Record<string, unknown>;
+
+    for (const field of DEPENDENCY_FIELDS) {
+      const dependencies = manifest[field] as Record<string, string> | undefined;
+
+      for (const name of Object.keys(dependencies ?? {})) {
+        const dependencyDir: string | undefined = packages.get(name);
+        if (dependencyDir) {
+          addEdge(graph, dir, dependencyDir);
+        }
+      }
+    }
+  }
+}
+
+export function addTsconfigReferences(graph: DependencyGraph, repoRoot: string, units: string[]): void {
+  const visited: Set<string> = new Set();
+  const queue: string[] = [...units];
+
+  while (queue.length > 0) {
+    const dir: string = queue.shift()!;
+    if (visited.has(dir)) {
+      continue;
+    }
+    visited.add(dir);
+
+    const tsconfig: string = path.join(repoRoot, dir, "tsconfig.json");
+    if (!fs.existsSync(tsconfig)) {
+      continue;
+    }
+
+    const { references } = readJson(tsconfig) as { references?: { path: string }[] };
+    for (const reference of references ?? []) {
+      let referenceDir: string = toRepoPath(dir, reference.path);
+      if (referenceDir.endsWith(".json")) {
+        referenceDir = path.posix.dirname(referenceDir);
+      }
+
+      addEdge(graph, dir, referenceDir);
+      queue.push(referenceDir);
+    }
+  }
+}
+
+export function addDependencyMap(graph: DependencyGraph, mapFile: string): void {
+  if (!fs.existsSync(mapFile)) {
+    throw new Error(`Dependency map file does not exist: ${mapFile}`);
+  }
+
+  const map: unknown = readJson(mapFile);
+  if (typeof map !== "object" || map === null || Array.isArray(map)) {
+    throw new Error(`Invalid dependency map ${mapFile}: expected an object of directory -> dependency list`);
+  }
+
+  for (const [dir, dependencies] of Object.entries(map)) {
+    if (!Array.isArray(dependencies) || !dependencies.every(dependency => typeof dependency === "string")) {
+      throw new Error(`Invalid dependency map ${mapFile}: "${dir}" must be an array of directories`);
+    }
+
+    for (const dependency of dependencies) {
+      addEdge(graph, toRepoPath(dir), toRepoPath(dependency));
+    }
+  }
+}
+
+export function buildDependencyGraph(repoRoot: string, options: DependencyGraphOptions): DependencyGraph {
+  const graph: DependencyGraph = new Map();
+
+  if (options.sources.includes("workspaces")) {
+    addWorkspaceDependencies(graph, repoRoot);
+  }
+
+  if (options.sources.includes("tsconfig")) {
+    addTsconfigReferences(graph, repoRoot, options.units);
+  }
+
+  if (options.mapFile) {
+    addDependencyMap(graph, options.mapFile);
+  }
+
+  return graph;
+}
+
+export function getTransitiveDependencies(graph: DependencyGraph, dir: string): string[] {
+  const visited: Set<string> = new Set();
+  const stack: string[] = [...(graph.get(dir) ?? [])];
+
+  while (stack.length > 0) {
+    const dependency: string = stack.pop()!;
+    if (dependency === dir || visited.has(dependency)) {
+      continue;
+    }
+
+    visited.add(dependency);
+    stack.push(...(graph.get(dependency) ?? []));
+  }
+
+  return [...visited];
+}
+
+/**
+ * Orders the units so that each comes after the units it depends on, directly
+ * or through directories outside the list. Units that are ready at the same
+ * time keep their order; units in a cycle are appended in their order.
+ */
+export function sortTopologically(units: string[], graph: DependencyGraph): string[] {
+  const unitSet: Set<string> = new Set(units);
+  const pending: Map<string, Set<string>> = new Map(units.map((unit: string) => [
+    unit,
+    new Set(getTransitiveDependencies(graph, unit).filter((dependency: string) => unitSet.has(dependency))),
+  ]));
+  const sorted: string[] = [];
+
+  while (pending.size > 0) {
+    const ready: string[] = [...pending.keys()].filter((unit: string) => pending.get(unit)!.size === 0);
+    if (ready.length === 0) {
+      sorted.push(...pending.keys());
+      break;
+    }
+
+    for (const unit of ready) {
+      pending.delete(unit);
+      sorted.push(unit);
+    }
+    for (const dependencies of pending.values()) {
+      ready.forEach((unit: string) => dependencies.delete(unit));
+    }
+  }
+
+  return sorted;
+}
+
+/**
+ * Returns the directories whose transitive dependencies contain a changed
+ * file, mapped to the changed dependency directories that caused them to be
+ * selected.
+ */
+export function findDependentDirectories(
+  subdirectories: string[],
+  changedFiles: string[],
+  targetParentPath: string,
+  graph: DependencyGraph,
+  ignoreCase: boolean = false
+): Map<string, string[]> {
+  const dependents: Map<string, string[]> = new Map();
+  const isChanged = (dir: string): boolean =>
+    changedFiles.some((file: string) => isPathInside(file, dir, ignoreCase));
+
+  for (const subdirectory of subdirectories) {
+    const changedDependencies: string[] = getTransitiveDependencies(graph, toRepoPath(targetParentPath, subdirectory))
+      .filter(isChanged)
+      .sort();
+
+    if (changedDependencies.length > 0) {
+      dependents.set(subdirectory, changedDependencies);
+    }
+  }
+
+  return dependents;
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { compilePatterns } from './matcher'
+import {
+  findMarkerDirectories,
+  loadGitignorePatterns,
+  shouldSkipDirectory
+} from './discovery'
+import { writeFile } from './test-helpers'
+
+describe('discovery', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-dir-discovery-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  describe('findMarkerDirectories', () => {
+    beforeEach(() => {
+      writeFile(root, 'apps/api/package.json', '{}')
+      writeFile(root, 'apps/api/e2e/package.json', '{}')
+      writeFile(root, 'apps/worker/go.mod')
+      writeFile(root, 'apps/shared-assets/logo.svg')
+      writeFile(root, 'apps/.cache/package.json', '{}')
+      writeFile(root, 'apps/web/node_modules/react/package.json', '{}')
+      writeFile(root, 'apps/web/Dockerfile')
+      writeFile(root, 'apps/dist/package.json', '{}')
+    })
+
+    it('should find directories containing any marker recursively', () => {
+      const result = findMarkerDirectories(path.join(root, 'apps'), ['package.json', 'go.mod', 'Dockerfile'])
+
+      expect(result.sort()).toEqual(['.cache', 'api', 'api/e2e', 'dist', 'web', 'worker'])
+    })
+
+    it('should skip hidden directories when requested', () => {
+      const result = findMarkerDirectories(path.join(root, 'apps'), ['package.json'], { skipHidden: true })
+
+      expect(result.sort()).toEqual(['api', 'api/e2e', 'dist'])
+    })
+
+    it('should skip directories matched by ignore patterns', () => {
+      const result = findMarkerDirectories(path.join(root, 'apps'), ['package.json'], {
+        ignorePatterns: compilePatterns(['dist/', 'apps/api/e2e']),
+        basePath: 'apps'
+      })
+
+      expect(result.sort()).toEqual(['.cache', 'api'])
+    })
+
+    it('should throw when the target directory does not exist', () => {
+      expect(() => findMarkerDirectories(path.join(root, 'missing'), ['package.json']))
+        .toThrow(`Target directory does not exist: ${path.join(root, 'missing')}`)
+    })
+  })
+
+  describe('shouldSkipDirectory', () => {
+    it('should keep every directory without options', () => {
+      expect(shouldSkipDirectory('.cache', {})).toBe(false)
+    })
+
+    it('should always skip .git and node_modules', () => {
+      expect(shouldSkipDirectory('.git', {})).toBe(true)
+      expect(shouldSkipDirectory('node_modules', {})).toBe(true)
+    })
+
+    it('should match ignore patterns relative to the base path', () => {
+      const ignorePatterns = compilePatterns(['/apps/legacy'])
+
+      expect(shouldSkipDirectory('legacy', { ignorePatterns, basePath: 'apps' })).toBe(true)
+      expect(shouldSkipDirectory('legacy', { ignorePatterns, basePath: 'libs' })).toBe(false)
+    })
+  })
+
+  describe('loadGitignorePatterns', () => {
+    it('should compile patterns from the root .gitignore', () => {
+      writeFile(root, '.gitignore', '# build output\ndist/\n\n!keep/\n')
+
+      const patterns = loadGitignorePatterns(root)
+
+      expect(patterns.map(pattern => pattern.source)).toEqual(['dist/', '!keep/'])
+    })
+
+    it('should return no patterns without a .gitignore', () => {
+      expect(loadGitignorePatterns(root)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import * as path from "path";
+import { compilePatterns, matchesPatterns, parsePatternList, type PathPattern } from "./matcher";
+
+const ALWAYS_SKIPPED: string[] = [".git", "node_modules"];
+
+export interface DiscoveryOptions {
+  skipHidden?: boolean;
+  ignorePatterns?: PathPattern[];
+  // Repository-relative POSIX path of the directory being scanned, used to match ignorePatterns
+  basePath?: string;
+}
+
+export function loadGitignorePatterns(repoRoot: string): PathPattern[] {
+  const gitignorePath: string = path.join(repoRoot, ".gitignore");
+
+  if (!fs.existsSync(gitignorePath)) {
+    return [];
+  }
+
+  return compilePatterns(parsePatternList(fs.readFileSync(gitignorePath, "utf8")));
+}
+
+export function childOptions(options: DiscoveryOptions, name: string): DiscoveryOptions {
+  return {
+    ...options,
+    basePath: options.basePath ? `${options.basePath}/${name}` : name,
+  };
+}
+
+export function shouldSkipDirectory(name: string, options: DiscoveryOptions): boolean {
+  if (ALWAYS_SKIPPED.includes(name)) {
+    return true;
+  }
+
+  if (options.skipHidden && name.startsWith(".")) {
+    return true;
+  }
+
+  if (options.ignorePatterns && options.ignorePatterns.length > 0) {
+    const dirPath: string = options.basePath ? `${options.basePath}/${name}` : name;
+    return matchesPatterns(dirPath, options.ignorePatterns, true);
+  }
+
+  return false;
+}
+
+/**
+ * Recursively finds directories below targetPath that directly contain one of
+ * the marker entries, returned as POSIX paths relative to targetPath.
+ */
+export function findMarkerDirectories(
+  targetPath: string,
+  markers: string[],
+  options: DiscoveryOptions = {}
+): string[] {
+  if (!fs.existsSync(targetPath)) {
+    throw new Error(`Target directory does not exist: ${targetPath}`);
+  }
+
+  const result: string[] = [];
+
+  const walk = (dir: string, relativePath: string, walkOptions: DiscoveryOptions): void => {
+    const entries: fs.Dirent[] = fs.readdirSync(dir, { withFileTypes: true });
+
+    if (relativePath && entries.some((entry: fs.Dirent) => markers.includes(entry.name))) {
+      result.push(relativePath);
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || shouldSkipDirectory(entry.name, walkOptions)) {
+        continue;
+      }
+
+      walk(
+        path.join(dir, entry.name),
+        relativePath ? `${relativePath}/${entry.name}` : entry.name,
+        childOptions(walkOptions, entry.name)
+      );
+    }
+  };
+
+  walk(targetPath, "", options);
+
+  return result;
+}
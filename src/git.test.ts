@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  getNameStatusDiff,
+  isShallowRepository,
+  listTrackedFiles,
+  parseNameStatus,
+  parseNumstat
+} from './git'
+import { commitAll, git, initRepository, writeFile } from './test-helpers'
+
+vi.mock('@actions/core')
+
+describe('git', () => {
+  let repoPath: string
+  let baseSha: string
+  let headSha: string
+
+  beforeAll(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-dir-git-'))
+    initRepository(repoPath)
+
+    writeFile(repoPath, 'apps/api/index.ts', 'export {}\n')
+    writeFile(repoPath, 'apps/web/index.ts', 'export {}\n')
+    writeFile(repoPath, 'apps/old/config.json', '{"name": "a fairly long file so renames are detected"}\n')
+    baseSha = commitAll(repoPath, 'base')
+
+    writeFile(repoPath, 'apps/api/index.ts', 'export const a = 1\n')
+    writeFile(repoPath, 'apps/worker/main file.ts', 'export const worker = true\n')
+    fs.rmSync(path.join(repoPath, 'apps/web/index.ts'))
+    fs.mkdirSync(path.join(repoPath, 'apps/new'))
+    fs.renameSync(path.join(repoPath, 'apps/old/config.json'), path.join(repoPath, 'apps/new/config.json'))
+    headSha = commitAll(repoPath, 'head')
+  })
+
+  afterAll(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true })
+  })
+
+  describe('getNameStatusDiff', () => {
+    it('should report status and previous filenames', () => {
+      const result = getNameStatusDiff(baseSha, headSha, repoPath)
+
+      expect(result).toEqual([
+        { filename: 'apps/api/index.ts', status: 'modified', additions: 1, deletions: 1 },
+        {
+          filename: 'apps/new/config.json',
+          status: 'renamed',
+          previous_filename: 'apps/old/config.json',
+          additions: 0,
+          deletions: 0
+        },
+        { filename: 'apps/web/index.ts', status: 'removed', additions: 0, deletions: 1 },
+        { filename: 'apps/worker/main file.ts', status: 'added', additions: 1, deletions: 0 }
+      ])
+    })
+
+    it('should throw a descriptive error for unknown commits', () => {
+      expect(() => getNameStatusDiff('0000000000000000000000000000000000000000', headSha, repoPath))
+        .toThrow('Failed to compute git diff between 0000000000000000000000000000000000000000 and')
+    })
+
+    it('should deepen a shallow clone until the base commit is reachable', () => {
+      const origin = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-dir-origin-'))
+      const clone = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-dir-clone-'))
+
+      try {
+        initRepository(origin)
+        git(origin, 'config', 'uploadpack.allowAnySHA1InWant', 'true')
+
+        writeFile(origin, 'apps/api/index.ts', 'export {}\n')
+        const originBase = commitAll(origin, 'base')
+        for (let i = 0; i < 3; i++) {
+          writeFile(origin, `apps/web/file${i}.ts`, 'export {}\n')
+          commitAll(origin, `change ${i}`)
+        }
+
+        git(clone, 'clone', '--quiet', '--depth=1', `file://${origin}`, '.')
+        expect(isShallowRepository(clone)).toBe(true)
+
+        const result = getNameStatusDiff(originBase, 'HEAD', clone).map(file => file.filename)
+
+        expect(result).toEqual(['apps/web/file0.ts', 'apps/web/file1.ts', 'apps/web/file2.ts'])
+      } finally {
+        fs.rmSync(origin, { recursive: true, force: true })
+        fs.rmSync(clone, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe('listTrackedFiles', () => {
+    it('should list tracked files below a directory relative to the repository root', () => {
+      fs.writeFileSync(path.join(repoPath, 'apps/api/untracked.ts'), '')
+
+      expect(listTrackedFiles('apps/api', repoPath)).toEqual(['apps/api/index.ts'])
+      expect(listTrackedFiles('', repoPath)).toContain('apps/worker/main file.ts')
+    })
+  })
+
+  describe('parseNameStatus', () => {
+    it('should parse NUL-delimited name-status output', () => {
+      const output = 'M\0a.ts\0R087\0old/b.ts\0new/b.ts\0C100\0c.ts\0d.ts\0D\0e.ts\0T\0f.ts\0'
+
+      expect(parseNameStatus(output)).toEqual([
+        { filename: 'a.ts', status: 'modified' },
+        { filename: 'new/b.ts', status: 'renamed', previous_filename: 'old/b.ts' },
+        { filename: 'd.ts', status: 'copied', previous_filename: 'c.ts' },
+        { filename: 'e.ts', status: 'removed' },
+        { filename: 'f.ts', status: 'changed' }
+      ])
+    })
+
+    it('should return an empty list for empty output', () => {
+      expect(parseNameStatus('')).toEqual([])
+    })
+  })
+
+  describe('parseNumstat', () => {
+    it('should parse NUL-delimited numstat output', () => {
+      const output = '3\t1\ta.ts\0' + '0\t2\t\0old/b.ts\0new/b.ts\0' + '-\t-\timage.png\0'
+
+      expect(parseNumstat(output)).toEqual(new Map([
+        ['a.ts', { additions: 3, deletions: 1 }],
+        ['new/b.ts', { additions: 0, deletions: 2 }]
+      ]))
+    })
+  })
+})
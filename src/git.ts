@@ -0,0 +1,189 @@
+import { execFileSync } from "child_process";
+import { log } from "./log";
+import type { PullRequestFile } from "./changes";
+
+const DEEPEN_STEPS: number[] = [50, 200, 1000];
+
+const STATUS_NAMES: Record<string, string> = {
+  A: "added",
+  M: "modified",
+  D: "removed",
+  R: "renamed",
+  C: "copied",
+  T: "changed",
+};
+
+interface LineCounts {
+  additions: number;
+  deletions: number;
+}
+
+function runGit(args: string[], cwd?: string): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    maxBuffer: 256 * 1024 * 1024,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+}
+
+function tryGit(args: string[], cwd?: string): string | null {
+  try {
+    return runGit(args, cwd);
+  } catch {
+    return null;
+  }
+}
+
+export function isShallowRepository(cwd?: string): boolean {
+  return tryGit(["rev-parse", "--is-shallow-repository"], cwd)?.trim() === "true";
+}
+
+export function hasCommit(ref: string, cwd?: string): boolean {
+  return tryGit(["cat-file", "-e", `${ref}^{commit}`], cwd) !== null;
+}
+
+export function hasMergeBase(base: string, head: string, cwd?: string): boolean {
+  return tryGit(["merge-base", base, head], cwd) !== null;
+}
+
+/**
+ * Fetches the base commit if it is missing and deepens a shallow clone until
+ * base and head share history, so that `base...head` can be diffed.
+ */
+export function ensureMergeBase(base: string, head: string, remote: string = "origin", cwd?: string): void {
+  const shallow: boolean = isShallowRepository(cwd);
+
+  if (!hasCommit(base, cwd)) {
+    log.info(`Fetching missing base commit ${base} from ${remote}`);
+    tryGit(["fetch", "--no-tags", "--quiet", ...(shallow ? ["--depth=1"] : []), remote, base], cwd);
+  }
+
+  if (!shallow || hasMergeBase(base, head, cwd)) {
+    return;
+  }
+
+  const headSha: string = tryGit(["rev-parse", head], cwd)?.trim() || head;
+  for (const depth of DEEPEN_STEPS) {
+    log.info(`Shallow clone has no merge base for ${base} and ${head}; deepening by ${depth} commits`);
+    tryGit(["fetch", "--no-tags", "--quiet", `--deepen=${depth}`, remote, base, headSha], cwd);
+
+    if (hasMergeBase(base, head, cwd)) {
+      return;
+    }
+  }
+
+  log.info("Merge base still missing; fetching full history");
+  tryGit(["fetch", "--no-tags", "--quiet", "--unshallow", remote, base, headSha], cwd);
+}
+
+export function parseNameStatus(output: string): PullRequestFile[] {
+  const tokens: string[] = output.split("\0").filter(token => token.length > 0);
+  const files: PullRequestFile[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const code: string = tokens[i].charAt(0);
+    const status: string = STATUS_NAMES[code] ?? "modified";
+
+    if (code === "R" || code === "C") {
+      files.push({ filename: tokens[i + 2], status, previous_filename: tokens[i + 1] });
+      i += 2;
+    } else {
+      files.push({ filename: tokens[i + 1], status });
+      i += 1;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Parses `git diff --numstat -z` output into line counts by filename. Binary
+ * files have no line counts and are left out.
+ */
+export function parseNumstat(output: string): Map<string, LineCounts> {
+  const tokens: string[] = output.split("\0");
+  const counts: Map<string, LineCounts> = new Map();
+
+  for (let i = 0; i < tokens.length; i++) {
+    const [additions, deletions, file] = tokens[i].split("\t");
+    if (deletions === undefined) {
+      continue;
+    }
+
+    // Renames and copies leave the path empty and list both paths after it
+    let filename: string = file;
+    if (!file) {
+      filename = tokens[i + 2];
+      i += 2;
+    }
+
+    if (additions !== "-" && deletions !== "-") {
+      counts.set(filename, { additions: Number(additions), deletions: Number(deletions) });
+    }
+  }
+
+  return counts;
+}
+
+function runDiff(format: string, base: string, head: string, cwd?: string): string {
+  try {
+    return runGit(["diff", format, "-z", "--find-renames", `${base}...${head}`], cwd);
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Failed to compute git diff between ${base} and ${head}. ` +
+      `Make sure both commits are fetched (e.g. actions/checkout with fetch-depth: 0): ${errorMessage}`
+    );
+  }
+}
+
+export function getNameStatusDiff(base: string, head: string, cwd?: string): PullRequestFile[] {
+  ensureMergeBase(base, head, "origin", cwd);
+
+  const files: PullRequestFile[] = parseNameStatus(runDiff("--name-status", base, head, cwd));
+  const counts: Map<string, LineCounts> = parseNumstat(runDiff("--numstat", base, head, cwd));
+
+  return files.map((file: PullRequestFile) => ({ ...file, ...counts.get(file.filename) }));
+}
+
+/**
+ * Returns the tracked files below dir, relative to the repository root.
+ */
+export function listTrackedFiles(dir: string, cwd?: string): string[] {
+  let output: string;
+
+  try {
+    output = runGit(["ls-files", "-z", "--full-name", "--", dir || "."], cwd);
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to list tracked files in ${dir || "."}: ${errorMessage}`);
+  }
+
+  return output.split("\0").filter(file => file.length > 0);
+}
+
+/**
+ * Returns the object id the index records for a path, which for a submodule
+ * is the commit it is pinned to.
+ */
+export function getIndexObjectId(file: string, cwd?: string): string {
+  try {
+    return runGit(["rev-parse", `:${file}`], cwd).trim();
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read the index entry of ${file}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Returns the top-level directory of the work tree containing cwd.
+ */
+export function getRepositoryRoot(cwd?: string): string {
+  const root: string | null = tryGit(["rev-parse", "--show-toplevel"], cwd);
+  if (root === null) {
+    throw new Error(`Not inside a git repository: ${cwd ?? process.cwd()}`);
+  }
+
+  return root.trim();
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { hashFiles, readHashCache, writeHashCache } from './hash'
+import { commitAll, git, initRepository, writeFile } from './test-helpers'
+
+vi.mock('@actions/core')
+
+describe('hash', () => {
+  const originalCwd: string = process.cwd()
+  let root: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-dir-hash-'))
+    process.chdir(root)
+  })
+
+  afterEach(() => {
+    process.chdir(originalCwd)
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  describe('hashFiles', () => {
+    it('should not depend on the order of the files', () => {
+      writeFile(root, 'apps/api/a.ts', 'a')
+      writeFile(root, 'apps/api/b.ts', 'b')
+
+      expect(hashFiles(['apps/api/a.ts', 'apps/api/b.ts'], 'apps/api'))
+        .toBe(hashFiles(['apps/api/b.ts', 'apps/api/a.ts'], 'apps/api'))
+    })
+
+    it('should hash paths relative to the directory', () => {
+      writeFile(root, 'apps/api/index.ts', 'same')
+      writeFile(root, 'apps/web/index.ts', 'same')
+
+      expect(hashFiles(['apps/api/index.ts'], 'apps/api')).toBe(hashFiles(['apps/web/index.ts'], 'apps/web'))
+    })
+
+    it('should change when contents or file names change', () => {
+      writeFile(root, 'apps/api/index.ts', 'one')
+      const before = hashFiles(['apps/api/index.ts'], 'apps/api')
+
+      writeFile(root, 'apps/api/index.ts', 'two')
+      expect(hashFiles(['apps/api/index.ts'], 'apps/api')).not.toBe(before)
+
+      writeFile(root, 'apps/api/main.ts', 'one')
+      expect(hashFiles(['apps/api/main.ts'], 'apps/api')).not.toBe(before)
+    })
+
+    it('should hash the target of symlinks instead of following them', () => {
+      fs.mkdirSync(path.join(root, 'apps/web'), { recursive: true })
+      fs.mkdirSync(path.join(root, 'apps/api'), { recursive: true })
+      fs.symlinkSync('../web', path.join(root, 'apps/api/weblink'))
+      const before = hashFiles(['apps/api/weblink'], 'apps/api')
+
+      fs.rmSync(path.join(root, 'apps/api/weblink'))
+      fs.symlinkSync('../docs', path.join(root, 'apps/api/weblink'))
+      expect(hashFiles(['apps/api/weblink'], 'apps/api')).not.toBe(before)
+    })
+
+    it('should hash the pinned commit of submodules', () => {
+      const submodule = path.join(root, 'submodule')
+      fs.mkdirSync(submodule)
+      initRepository(submodule)
+      writeFile(submodule, 'README.md', 'one')
+      const first = commitAll(submodule, 'first')
+      writeFile(submodule, 'README.md', 'two')
+      const second = commitAll(submodule, 'second')
+
+      initRepository(root)
+      fs.mkdirSync(path.join(root, 'apps/api/lib'), { recursive: true })
+      git(root, 'update-index', '--add', '--cacheinfo', `160000,${first},apps/api/lib`)
+      const before = hashFiles(['apps/api/lib'], 'apps/api')
+
+      git(root, 'update-index', '--cacheinfo', `160000,${second},apps/api/lib`)
+      expect(hashFiles(['apps/api/lib'], 'apps/api')).not.toBe(before)
+    })
+  })
+
+  describe('readHashCache', () => {
+    it('should treat a missing cache as empty', () => {
+      expect(readHashCache('missing.json')).toEqual({})
+    })
+
+    it('should reject caches that are not a map of hashes', () => {
+      writeFile(root, 'cache.json', '["apps/api"]')
+      expect(() => readHashCache('cache.json'))
+        .toThrow('Invalid hash cache cache.json: expected an object of directory -> hash')
+
+      writeFile(root, 'cache.json', '{')
+      expect(() => readHashCache('cache.json')).toThrow('Invalid hash cache cache.json:')
+    })
+  })
+
+  describe('writeHashCache', () => {
+    it('should merge new hashes into the previous entries', () => {
+      writeHashCache('.cache/hashes.json', { 'apps/web': 'old', 'apps/api': 'old' }, { 'apps/api': 'new' })
+
+      expect(readHashCache('.cache/hashes.json')).toEqual({ 'apps/api': 'new', 'apps/web': 'old' })
+      expect(fs.readFileSync('.cache/hashes.json', 'utf8')).toBe('{\n  "apps/api": "new",\n  "apps/web": "old"\n}\n')
+    })
+  })
+})
@@ -0,0 +1,85 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { getIndexObjectId } from "./git";
+import { log } from "./log";
+
+// Directory repository paths mapped to the content hash from a previous run
+export type HashCache = Record<string, string>;
+
+/**
+ * Hashes what git tracks for a file: the target of a symlink, the pinned
+ * commit of a submodule, or the contents of anything else.
+ */
+function hashTrackedFile(file: string, stats: fs.Stats): string {
+  const contentHash = createHash("sha256");
+
+  if (stats.isSymbolicLink()) {
+    contentHash.update(`symlink\0${fs.readlinkSync(file)}`);
+  } else if (stats.isDirectory()) {
+    contentHash.update(`submodule\0${getIndexObjectId(file)}`);
+  } else {
+    contentHash.update(fs.readFileSync(file));
+  }
+
+  return contentHash.digest("hex");
+}
+
+/**
+ * Returns a hash of the given files' paths relative to dir and their
+ * contents. The order of the files does not matter, so the same contents
+ * always give the same hash.
+ */
+export function hashFiles(files: string[], dir: string): string {
+  const hash = createHash("sha256");
+
+  for (const file of [...files].sort()) {
+    const stats: fs.Stats | undefined = fs.lstatSync(file, { throwIfNoEntry: false });
+    if (!stats) {
+      continue;
+    }
+
+    const relativePath: string = dir ? file.slice(dir.length + 1) : file;
+    const contentHash: string = hashTrackedFile(file, stats);
+    hash.update(`${relativePath}\0${contentHash}\n`);
+  }
+
+  return hash.digest("hex");
+}
+
+export function readHashCache(cacheFile: string): HashCache {
+  if (!fs.existsSync(cacheFile)) {
+    log.info(`Hash cache ${cacheFile} does not exist yet; treating every directory as changed`);
+    return {};
+  }
+
+  let cache: unknown;
+  try {
+    cache = JSON.parse(fs.readFileSync(cacheFile, "utf8"));
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid hash cache ${cacheFile}: ${errorMessage}`);
+  }
+
+  if (typeof cache !== "object" || cache === null || Array.isArray(cache) ||
+    Object.values(cache).some((value: unknown) => typeof value !== "string")) {
+    throw new Error(`Invalid hash cache ${cacheFile}: expected an object of directory -> hash`);
+  }
+
+  return cache as HashCache;
+}
+
+/**
+ * Writes the cache back with the new hashes, keeping entries for directories
+ * that were not hashed in this run.
+ */
+export function writeHashCache(cacheFile: string, previous: HashCache, hashes: HashCache): void {
+  const merged: HashCache = { ...previous, ...hashes };
+  const sorted: HashCache = Object.fromEntries(
+    Object.keys(merged).sort().map((dir: string) => [dir, merged[dir]])
+  );
+
+  fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+  fs.writeFileSync(cacheFile, JSON.stringify(sorted, null, 2) + "\n");
+  log.info(`Wrote ${Object.keys(hashes).length} directory hashes to ${cacheFile}`);
+}
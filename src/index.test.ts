@@ -3,229 +3,57 @@ import * as fs from 'fs'
 import * as path from 'path'
 import * as core from '@actions/core'
 import * as github from '@actions/github'
+import * as git from './git'
+import * as dependencies from './dependencies'
 import {
-  getChangedFiles,
-  getSubdirectories,
-  filterDirectoriesWithChanges,
-  parseManualDirectories,
-  getManualTargetDirectories,
+  parseOnError,
   main,
-  type GitHubContext,
-  type PullRequestFile
+  type GitHubContext
 } from './index'
+import { hashFiles } from './hash'
 
 // Mock modules
 vi.mock('fs')
 vi.mock('path')
 vi.mock('@actions/core')
 vi.mock('@actions/github')
+vi.mock('./git')
+vi.mock('./dependencies', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./dependencies')>()),
+  buildDependencyGraph: vi.fn(),
+  findDependentDirectories: vi.fn()
+}))
 
 const mockFs = vi.mocked(fs)
 const mockPath = vi.mocked(path)
 const mockCore = vi.mocked(core)
 const mockGithub = vi.mocked(github)
+const mockGit = vi.mocked(git)
+const mockDependencies = vi.mocked(dependencies)
 
 describe('Filter Directory Action', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     process.cwd = vi.fn().mockReturnValue('/workspace')
+    mockCore.getBooleanInput.mockReturnValue(false)
   })
 
   afterEach(() => {
     vi.restoreAllMocks()
   })
 
-  describe('getChangedFiles', () => {
-    it('should fetch and return changed files from GitHub API', async () => {
-      const mockFiles: PullRequestFile[] = [
-        { filename: 'src/app1/file1.ts', status: 'modified' },
-        { filename: 'src/app2/file2.ts', status: 'added' },
-        { filename: 'docs/README.md', status: 'modified' }
-      ]
-
-      const mockOctokit = {
-        rest: {
-          pulls: {
-            listFiles: vi.fn().mockResolvedValue({ data: mockFiles })
-          }
-        }
-      }
-
-      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
-
-      const context: GitHubContext = {
-        repo: { owner: 'testowner', repo: 'testrepo' },
-        payload: { pull_request: { number: 123 } }
-      }
-
-      const result = await getChangedFiles('mock-token', context)
-
-      expect(mockGithub.getOctokit).toHaveBeenCalledWith('mock-token')
-      expect(mockOctokit.rest.pulls.listFiles).toHaveBeenCalledWith({
-        owner: 'testowner',
-        repo: 'testrepo',
-        pull_number: 123
-      })
-      expect(result).toEqual([
-        'src/app1/file1.ts',
-        'src/app2/file2.ts',
-        'docs/README.md'
-      ])
-    })
-
-    it('should throw error when not in pull request context', async () => {
-      const context: GitHubContext = {
-        repo: { owner: 'testowner', repo: 'testrepo' },
-        payload: {}
-      }
-
-      await expect(getChangedFiles('mock-token', context))
-        .rejects.toThrow('This action only works on pull requests')
-    })
-
-    it('should handle GitHub API errors', async () => {
-      const mockOctokit = {
-        rest: {
-          pulls: {
-            listFiles: vi.fn().mockRejectedValue(new Error('API Error'))
-          }
-        }
-      }
-
-      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
-
-      const context: GitHubContext = {
-        repo: { owner: 'testowner', repo: 'testrepo' },
-        payload: { pull_request: { number: 123 } }
-      }
-
-      await expect(getChangedFiles('mock-token', context))
-        .rejects.toThrow('API Error')
-    })
-  })
-
-  describe('getSubdirectories', () => {
-    it('should return list of subdirectories', () => {
-      const mockDirents = [
-        { name: 'app1', isDirectory: () => true },
-        { name: 'app2', isDirectory: () => true },
-        { name: 'file.txt', isDirectory: () => false },
-        { name: 'app3', isDirectory: () => true }
-      ]
-
-      mockFs.existsSync.mockReturnValue(true)
-      mockFs.readdirSync.mockReturnValue(mockDirents as any)
-
-      const result = getSubdirectories('/test/path')
-
-      expect(mockFs.existsSync).toHaveBeenCalledWith('/test/path')
-      expect(mockFs.readdirSync).toHaveBeenCalledWith('/test/path', { withFileTypes: true })
-      expect(result).toEqual(['app1', 'app2', 'app3'])
-    })
-
-    it('should throw error when target directory does not exist', () => {
-      mockFs.existsSync.mockReturnValue(false)
-
-      expect(() => getSubdirectories('/nonexistent/path'))
-        .toThrow('Target directory does not exist: /nonexistent/path')
-    })
-
-    it('should return empty array when no subdirectories exist', () => {
-      const mockDirents = [
-        { name: 'file1.txt', isDirectory: () => false },
-        { name: 'file2.js', isDirectory: () => false }
-      ]
-
-      mockFs.existsSync.mockReturnValue(true)
-      mockFs.readdirSync.mockReturnValue(mockDirents as any)
-
-      const result = getSubdirectories('/test/path')
-      expect(result).toEqual([])
-    })
-  })
-
-  describe('filterDirectoriesWithChanges', () => {
-    beforeEach(() => {
-      mockPath.join.mockImplementation((...args) => args.join('/'))
-      mockPath.relative.mockImplementation((from, to) => {
-        if (from === '/workspace') {
-          return to.replace('/workspace/', '')
-        }
-        return to
-      })
-      Object.defineProperty(mockPath, 'sep', {
-        value: '/',
-        configurable: true
-      })
-    })
-
-    it('should filter directories that contain changed files', () => {
-      const subdirectories = ['app1', 'app2', 'app3']
-      const changedFiles = [
-        'src/app1/file1.ts',
-        'src/app3/file3.ts',
-        'docs/README.md'
-      ]
-      const targetParentPath = 'src'
-
-      const result = filterDirectoriesWithChanges(
-        subdirectories,
-        changedFiles,
-        targetParentPath
-      )
-
-      expect(result).toEqual(['app1', 'app3'])
-    })
-
-    it('should handle exact directory matches', () => {
-      const subdirectories = ['app1', 'app2']
-      const changedFiles = ['src/app1']
-      const targetParentPath = 'src'
-
-      const result = filterDirectoriesWithChanges(
-        subdirectories,
-        changedFiles,
-        targetParentPath
-      )
-
-      expect(result).toEqual(['app1'])
-    })
-
-    it('should return empty array when no directories have changes', () => {
-      const subdirectories = ['app1', 'app2', 'app3']
-      const changedFiles = ['docs/README.md', 'other/file.ts']
-      const targetParentPath = 'src'
-
-      const result = filterDirectoriesWithChanges(
-        subdirectories,
-        changedFiles,
-        targetParentPath
-      )
-
-      expect(result).toEqual([])
+  describe('parseOnError', () => {
+    it('should default to failing', () => {
+      expect(parseOnError('')).toBe('fail')
     })
 
-    it('should handle nested directory paths correctly', () => {
-      const subdirectories = ['services', 'components']
-      const changedFiles = [
-        'src/services/auth/login.ts',
-        'src/components/ui/button.tsx'
-      ]
-      const targetParentPath = 'src'
-
-      const result = filterDirectoriesWithChanges(
-        subdirectories,
-        changedFiles,
-        targetParentPath
-      )
-
-      expect(result).toEqual(['services', 'components'])
+    it('should accept the fallback modes case-insensitively', () => {
+      expect(parseOnError('All')).toBe('all')
+      expect(parseOnError(' none ')).toBe('none')
     })
 
-    it('should handle empty inputs', () => {
-      expect(filterDirectoriesWithChanges([], [], 'src')).toEqual([])
-      expect(filterDirectoriesWithChanges(['app1'], [], 'src')).toEqual([])
-      expect(filterDirectoriesWithChanges([], ['file.ts'], 'src')).toEqual([])
+    it('should reject unknown modes', () => {
+      expect(() => parseOnError('ignore')).toThrow('Invalid on-error: ignore')
     })
   })
 
@@ -295,30 +123,30 @@ describe('Filter Directory Action', () => {
       expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1","app2"]')
     })
 
-    it('should throw error when GitHub token is missing', async () => {
-      mockCore.getInput.mockImplementation((name: string) => {
-        switch (name) {
-          case 'target-parent-path':
-            return 'src'
-          case 'github-token':
-            return ''
-          default:
-            return ''
-        }
-      })
-      delete process.env.GITHUB_TOKEN
+    it('should emit matrix, count and list outputs', async () => {
+      await main()
 
-      await expect(main()).rejects.toThrow('GitHub token is required')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('matrix', JSON.stringify({
+        include: [
+          { name: 'app1', path: 'src/app1', 'changed-files': ['src/app1/file1.ts'] },
+          { name: 'app2', path: 'src/app2', 'changed-files': ['src/app2/file2.ts'] }
+        ]
+      }))
+      expect(mockCore.setOutput).toHaveBeenCalledWith('has-changes', true)
+      expect(mockCore.setOutput).toHaveBeenCalledWith('count', 2)
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-list', 'app1 app2')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-paths', '["src/app1","src/app2"]')
     })
 
-    it('should use GITHUB_TOKEN environment variable when input is empty', async () => {
-      process.env.GITHUB_TOKEN = 'env-token'
+    it('should join the list output with the configured separator', async () => {
       mockCore.getInput.mockImplementation((name: string) => {
         switch (name) {
           case 'target-parent-path':
             return 'src'
           case 'github-token':
-            return ''
+            return 'mock-token'
+          case 'list-separator':
+            return 'newline'
           default:
             return ''
         }
@@ -326,140 +154,99 @@ describe('Filter Directory Action', () => {
 
       await main()
 
-      expect(mockGithub.getOctokit).toHaveBeenCalledWith('env-token')
-    })
-
-    it('should handle target directory not existing', async () => {
-      mockFs.existsSync.mockReturnValue(false)
-
-      await expect(main()).rejects.toThrow('Target directory does not exist: /workspace/src')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-list', 'app1\napp2')
     })
 
-    it('should handle empty results', async () => {
-      const mockOctokit = {
+    it('should flag both directories of a renamed file and report deleted directories', async () => {
+      mockGithub.getOctokit.mockReturnValue({
         rest: {
           pulls: {
             listFiles: vi.fn().mockResolvedValue({
-              data: [{ filename: 'docs/README.md', status: 'modified' }]
+              data: [
+                { filename: 'src/app3/index.ts', status: 'renamed', previous_filename: 'src/app1/index.ts' },
+                { filename: 'src/old/index.ts', status: 'removed' }
+              ]
             })
           }
         }
-      }
-
-      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+      } as any)
+      mockFs.existsSync.mockImplementation((p: any) => p !== '/workspace/src/old')
 
       await main()
 
-      expect(mockCore.info).toHaveBeenCalledWith('Found 1 changed files')
-      expect(mockCore.info).toHaveBeenCalledWith('Directories with changes: []')
-      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '[]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1","app3"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('deleted-dirs', '["old"]')
     })
 
-    it('should handle GitHub API failures gracefully', async () => {
-      const mockOctokit = {
+    it('should ignore removed files when requested', async () => {
+      mockCore.getBooleanInput.mockImplementation((name: string) => name === 'ignore-removed')
+      mockGithub.getOctokit.mockReturnValue({
         rest: {
           pulls: {
-            listFiles: vi.fn().mockRejectedValue(new Error('GitHub API Error'))
+            listFiles: vi.fn().mockResolvedValue({
+              data: [
+                { filename: 'src/app1/index.ts', status: 'removed' },
+                { filename: 'src/app2/index.ts', status: 'modified' }
+              ]
+            })
           }
         }
-      }
-
-      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+      } as any)
 
-      await expect(main()).rejects.toThrow('GitHub API Error')
-    })
-  })
-
-  describe('parseManualDirectories', () => {
-    it('should parse comma-separated directories correctly', () => {
-      const input = 'alpha,beta,gamma,delta'
-      const result = parseManualDirectories(input)
-      expect(result).toEqual(['alpha', 'beta', 'gamma', 'delta'])
-    })
-
-    it('should handle directories with spaces around commas', () => {
-      const input = 'alpha, beta,gamma , delta'
-      const result = parseManualDirectories(input)
-      expect(result).toEqual(['alpha', 'beta', 'gamma', 'delta'])
-    })
-
-    it('should handle empty input', () => {
-      expect(parseManualDirectories('')).toEqual([])
-      expect(parseManualDirectories('   ')).toEqual([])
-    })
-
-    it('should filter out empty directory names', () => {
-      const input = 'alpha,,beta, ,gamma'
-      const result = parseManualDirectories(input)
-      expect(result).toEqual(['alpha', 'beta', 'gamma'])
-    })
-
-    it('should handle single directory', () => {
-      const input = 'alpha'
-      const result = parseManualDirectories(input)
-      expect(result).toEqual(['alpha'])
-    })
-  })
-
-  describe('getManualTargetDirectories', () => {
-    it('should return all available directories when manual list is empty', () => {
-      const manualDirectories: string[] = []
-      const availableDirectories = ['alpha', 'beta', 'gamma', 'delta']
-      const result = getManualTargetDirectories(manualDirectories, availableDirectories)
-      expect(result).toEqual(['alpha', 'beta', 'gamma', 'delta'])
-    })
+      await main()
 
-    it('should filter manual directories by available directories', () => {
-      const manualDirectories = ['alpha', 'beta', 'gamma', 'delta']
-      const availableDirectories = ['alpha', 'beta', 'other']
-      const result = getManualTargetDirectories(manualDirectories, availableDirectories)
-      expect(result).toEqual(['alpha', 'beta'])
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app2"]')
     })
 
-    it('should handle no matching directories', () => {
-      const manualDirectories = ['nonexistent1', 'nonexistent2']
-      const availableDirectories = ['alpha', 'beta']
-      const result = getManualTargetDirectories(manualDirectories, availableDirectories)
-      expect(result).toEqual([])
-    })
+    it('should throw error when GitHub token is missing', async () => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'github-token':
+            return ''
+          default:
+            return ''
+        }
+      })
+      delete process.env.GITHUB_TOKEN
 
-    it('should handle empty available directories', () => {
-      const manualDirectories = ['alpha', 'beta']
-      const availableDirectories: string[] = []
-      const result = getManualTargetDirectories(manualDirectories, availableDirectories)
-      expect(result).toEqual([])
+      await expect(main()).rejects.toThrow('GitHub token is required')
     })
-  })
 
-  describe('main - manual mode', () => {
-    let mockContext: GitHubContext
-
-    beforeEach(() => {
-      mockContext = {
-        repo: { owner: 'testowner', repo: 'testrepo' },
-        payload: {}
-      }
+    it('should not require a token with the git change source', async () => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'change-source':
+            return 'git'
+          default:
+            return ''
+        }
+      })
+      delete process.env.GITHUB_TOKEN
+      mockContext.payload.pull_request!.base = { sha: 'base-sha' }
+      mockGit.getNameStatusDiff.mockReturnValue([
+        { filename: 'src/app3/file3.ts', status: 'modified' }
+      ])
 
-      const mockDirents = [
-        { name: 'alpha', isDirectory: () => true },
-        { name: 'beta', isDirectory: () => true },
-        { name: 'gamma', isDirectory: () => true },
-        { name: 'delta', isDirectory: () => true }
-      ]
+      await main()
 
-      mockFs.existsSync.mockReturnValue(true)
-      mockFs.readdirSync.mockReturnValue(mockDirents as any)
-      mockPath.resolve.mockReturnValue('/workspace/src')
-      mockGithub.context = mockContext as any
+      expect(mockGithub.getOctokit).not.toHaveBeenCalled()
+      expect(mockCore.info).toHaveBeenCalledWith('Using local git diff as the change source')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app3"]')
     })
 
-    it('should run in manual mode with specific directories', async () => {
+    it('should ignore changed files filtered out by include/exclude paths', async () => {
       mockCore.getInput.mockImplementation((name: string) => {
         switch (name) {
           case 'target-parent-path':
             return 'src'
-          case 'manual-directories':
-            return 'alpha,beta,gamma'
+          case 'github-token':
+            return 'mock-token'
+          case 'exclude-paths':
+            return 'src/app2/**\n*.md'
           default:
             return ''
         }
@@ -467,135 +254,1154 @@ describe('Filter Directory Action', () => {
 
       await main()
 
-      expect(mockCore.info).toHaveBeenCalledWith('Running in manual mode')
-      expect(mockCore.info).toHaveBeenCalledWith('Manual target directories: ["alpha","beta","gamma"]')
-      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["alpha","beta","gamma"]')
+      expect(mockCore.info).toHaveBeenCalledWith('Ignoring 1 changed files excluded by include-paths/exclude-paths')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1"]')
     })
 
-    it('should run in manual mode with all directories when input is empty', async () => {
+    it('should only consider directories containing a marker file', async () => {
       mockCore.getInput.mockImplementation((name: string) => {
         switch (name) {
           case 'target-parent-path':
             return 'src'
-          case 'manual-directories':
-            return ''
+          case 'github-token':
+            return 'mock-token'
+          case 'marker-files':
+            return 'package.json, go.mod'
           default:
             return ''
         }
       })
+      mockFs.readdirSync.mockImplementation(((dir: string) => {
+        if (dir === '/workspace/src') {
+          return [
+            { name: 'app1', isDirectory: () => true },
+            { name: 'app2', isDirectory: () => true }
+          ]
+        }
+        if (dir === '/workspace/src/app1') {
+          return [{ name: 'package.json', isDirectory: () => false }]
+        }
+        return []
+      }) as any)
 
       await main()
 
-      expect(mockCore.info).toHaveBeenCalledWith('Running in manual mode')
-      expect(mockCore.info).toHaveBeenCalledWith('Manual target directories: ["alpha","beta","gamma","delta"]')
-      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["alpha","beta","gamma","delta"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1"]')
     })
 
-    it('should filter directories that exist in target directory', async () => {
+    it('should skip hidden directories when requested', async () => {
+      mockCore.getBooleanInput.mockImplementation((name: string) => name === 'skip-hidden-directories')
+      mockFs.readdirSync.mockReturnValue([
+        { name: 'app1', isDirectory: () => true },
+        { name: '.cache', isDirectory: () => true }
+      ] as any)
+
+      await main()
+
+      expect(mockCore.debug).toHaveBeenCalledWith('Found 1 subdirectories: ["app1"]')
+    })
+
+    it('should include directories whose dependencies changed', async () => {
       mockCore.getInput.mockImplementation((name: string) => {
         switch (name) {
           case 'target-parent-path':
             return 'src'
-          case 'manual-directories':
-            return 'alpha,beta,nonexistent,gamma'
+          case 'github-token':
+            return 'mock-token'
+          case 'dependency-sources':
+            return 'workspaces'
           default:
             return ''
         }
       })
+      const graph = new Map([['src/app3', new Set(['src/app1'])]])
+      mockDependencies.buildDependencyGraph.mockReturnValue(graph)
+      mockDependencies.findDependentDirectories.mockReturnValue(new Map([
+        ['app2', ['src/app1']],
+        ['app3', ['src/app1']]
+      ]))
 
       await main()
 
-      expect(mockCore.info).toHaveBeenCalledWith('Running in manual mode')
-      expect(mockCore.info).toHaveBeenCalledWith('Manual target directories: ["alpha","beta","gamma"]')
-      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["alpha","beta","gamma"]')
+      expect(mockDependencies.buildDependencyGraph).toHaveBeenCalledWith('/workspace', {
+        sources: ['workspaces'],
+        mapFile: undefined,
+        units: ['src/app1', 'src/app2', 'src/app3']
+      })
+      expect(mockCore.info).toHaveBeenCalledWith('Including app3 because its dependencies changed: src/app1')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1","app2","app3"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('reasons', JSON.stringify({
+        app1: { reason: 'changed' },
+        app2: { reason: 'changed' },
+        app3: { reason: 'dependency', via: ['src/app1'] }
+      }))
     })
 
-    it('should handle manual directories with spaces', async () => {
+    it('should select every directory when a global path changes', async () => {
       mockCore.getInput.mockImplementation((name: string) => {
         switch (name) {
           case 'target-parent-path':
             return 'src'
-          case 'manual-directories':
-            return 'alpha, beta,gamma ,delta'
+          case 'github-token':
+            return 'mock-token'
+          case 'global-paths':
+            return 'package-lock.json\n.github/workflows/**'
           default:
             return ''
         }
       })
+      mockGithub.getOctokit.mockReturnValue({
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockResolvedValue({
+              data: [
+                { filename: 'src/app1/file1.ts', status: 'modified' },
+                { filename: '.github/workflows/deploy.yml', status: 'modified' }
+              ]
+            })
+          }
+        }
+      } as any)
 
       await main()
 
-      expect(mockCore.info).toHaveBeenCalledWith('Running in manual mode')
-      expect(mockCore.info).toHaveBeenCalledWith('Manual target directories: ["alpha","beta","gamma","delta"]')
-      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["alpha","beta","gamma","delta"]')
+      expect(mockCore.info).toHaveBeenCalledWith('Global paths changed, selecting all directories: .github/workflows/deploy.yml')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1","app2","app3"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('global-trigger-files', '[".github/workflows/deploy.yml"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('reasons', JSON.stringify({
+        app1: { reason: 'changed' },
+        app2: { reason: 'global', via: ['.github/workflows/deploy.yml'] },
+        app3: { reason: 'global', via: ['.github/workflows/deploy.yml'] }
+      }))
     })
-  })
 
-  describe('Integration scenarios', () => {
+    it('should not trigger globally when no global path changes', async () => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'github-token':
+            return 'mock-token'
+          case 'global-paths':
+            return 'package-lock.json'
+          default:
+            return ''
+        }
+      })
+
+      await main()
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1","app2"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('global-trigger-files', '[]')
+    })
+
+    it('should use GITHUB_TOKEN environment variable when input is empty', async () => {
+      process.env.GITHUB_TOKEN = 'env-token'
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'github-token':
+            return ''
+          default:
+            return ''
+        }
+      })
+
+      await main()
+
+      expect(mockGithub.getOctokit).toHaveBeenCalledWith('env-token')
+    })
+
+    it('should handle target directory not existing', async () => {
+      mockFs.existsSync.mockReturnValue(false)
+
+      await expect(main()).rejects.toThrow('Target directory does not exist: /workspace/src')
+    })
+
+    it('should handle empty results', async () => {
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockResolvedValue({
+              data: [{ filename: 'docs/README.md', status: 'modified' }]
+            })
+          }
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+
+      await main()
+
+      expect(mockCore.info).toHaveBeenCalledWith('Found 1 changed files')
+      expect(mockCore.info).toHaveBeenCalledWith('Directories with changes: []')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '[]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('matrix', '{"include":[]}')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('has-changes', false)
+      expect(mockCore.setOutput).toHaveBeenCalledWith('count', 0)
+    })
+
+    it('should handle GitHub API failures gracefully', async () => {
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockRejectedValue(new Error('GitHub API Error'))
+          }
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+
+      await expect(main()).rejects.toThrow('GitHub API Error')
+    })
+
+    it('should explain a missing pull request permission', async () => {
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockRejectedValue(
+              Object.assign(new Error('Resource not accessible by integration'), { status: 403, response: { headers: {} } })
+            )
+          }
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+
+      await expect(main()).rejects.toThrow(
+        'The GitHub token is not allowed to list pull request files (Resource not accessible by integration); ' +
+        'grant the workflow the "pull-requests: read" permission'
+      )
+    })
+
+    it('should explain a pull request that cannot be found', async () => {
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockRejectedValue(
+              Object.assign(new Error('Not Found'), { status: 404, response: { headers: {} } })
+            )
+          }
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+
+      await expect(main()).rejects.toThrow('Pull request #123 was not found in testowner/testrepo (Not Found)')
+    })
+
+    describe('on-error', () => {
+      const setOnError = (onError: string) => {
+        mockCore.getInput.mockImplementation((name: string) => {
+          switch (name) {
+            case 'target-parent-path':
+              return 'src'
+            case 'github-token':
+              return 'mock-token'
+            case 'on-error':
+              return onError
+            default:
+              return ''
+          }
+        })
+      }
+
+      beforeEach(() => {
+        const mockOctokit = {
+          rest: {
+            pulls: {
+              listFiles: vi.fn().mockRejectedValue(new Error('GitHub API Error'))
+            }
+          }
+        }
+
+        mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+      })
+
+      it('should select every directory when set to all', async () => {
+        setOnError('all')
+
+        await main()
+
+        expect(mockCore.warning).toHaveBeenCalledWith('Could not determine changed files: GitHub API Error')
+        expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1","app2","app3"]')
+        expect(mockCore.setOutput).toHaveBeenCalledWith(
+          'reasons',
+          '{"app1":{"reason":"fallback"},"app2":{"reason":"fallback"},"app3":{"reason":"fallback"}}'
+        )
+      })
+
+      it('should select no directories when set to none', async () => {
+        setOnError('none')
+
+        await main()
+
+        expect(mockCore.warning).toHaveBeenCalledWith('Could not determine changed files: GitHub API Error')
+        expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '[]')
+        expect(mockCore.setOutput).toHaveBeenCalledWith('has-changes', false)
+      })
+
+      it('should still fail when the target directory is missing', async () => {
+        setOnError('all')
+        mockFs.existsSync.mockReturnValue(false)
+
+        await expect(main()).rejects.toThrow(
+          'Target directory does not exist: /workspace/src; check target-parent-path ("src") ' +
+          'and that the repository is checked out before this step'
+        )
+      })
+    })
+
+    it('should write the report to the job summary', async () => {
+      mockCore.getBooleanInput.mockImplementation((name: string) => name === 'job-summary')
+
+      await main()
+
+      const markdown = vi.mocked(mockCore.summary.addRaw).mock.calls[0][0] as string
+      expect(markdown).toContain('2 of 3 directories selected.')
+      expect(markdown).toContain('| `app1` | ✅ | Direct change | `src/app1/file1.ts` |')
+      expect(markdown).toContain('| `app3` | — |  |  |')
+      expect(mockCore.summary.write).toHaveBeenCalled()
+    })
+
+    it('should skip the job summary when disabled', async () => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'github-token':
+            return 'mock-token'
+          default:
+            return ''
+        }
+      })
+      mockCore.getBooleanInput.mockReturnValue(false)
+
+      await main()
+
+      expect(mockCore.getBooleanInput).toHaveBeenCalledWith('job-summary')
+      expect(mockCore.summary.addRaw).not.toHaveBeenCalled()
+    })
+
+    it('should update the existing pull request comment when enabled', async () => {
+      mockCore.getBooleanInput.mockImplementation((name: string) => name === 'pr-comment')
+      const mockIssues = {
+        listComments: vi.fn().mockResolvedValue({
+          data: [
+            { id: 1, body: 'Looks good' },
+            { id: 2, body: '<!-- filter-dir-action -->\nold report' }
+          ]
+        }),
+        updateComment: vi.fn().mockResolvedValue({}),
+        createComment: vi.fn()
+      }
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockResolvedValue({
+              data: [{ filename: 'src/app1/file1.ts', status: 'modified' }]
+            })
+          },
+          issues: mockIssues
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+
+      await main()
+
+      expect(mockIssues.listComments).toHaveBeenCalledWith({
+        owner: 'testowner',
+        repo: 'testrepo',
+        issue_number: 123,
+        per_page: 100,
+        page: 1
+      })
+      expect(mockIssues.updateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: 2 }))
+      expect(mockIssues.createComment).not.toHaveBeenCalled()
+    })
+
+    it('should warn instead of failing when the pull request comment cannot be written', async () => {
+      mockCore.getBooleanInput.mockImplementation((name: string) => name === 'pr-comment')
+      const mockOctokit = {
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockResolvedValue({
+              data: [{ filename: 'src/app1/file1.ts', status: 'modified' }]
+            })
+          },
+          issues: {
+            listComments: vi.fn().mockRejectedValue(new Error('Resource not accessible by integration'))
+          }
+        }
+      }
+
+      mockGithub.getOctokit.mockReturnValue(mockOctokit as any)
+
+      await main()
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to update the pull request comment: Resource not accessible by integration'
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1"]')
+    })
+  })
+
+  describe('main - manual mode', () => {
+    let mockContext: GitHubContext
+
     beforeEach(() => {
+      mockContext = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {}
+      }
+
+      const mockDirents = [
+        { name: 'alpha', isDirectory: () => true },
+        { name: 'beta', isDirectory: () => true },
+        { name: 'gamma', isDirectory: () => true },
+        { name: 'delta', isDirectory: () => true }
+      ]
+
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.readdirSync.mockReturnValue(mockDirents as any)
+      mockPath.resolve.mockReturnValue('/workspace/src')
+      mockGithub.context = mockContext as any
+    })
+
+    it('should run in manual mode with specific directories', async () => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'manual-directories':
+            return 'alpha,beta,gamma'
+          default:
+            return ''
+        }
+      })
+
+      await main()
+
+      expect(mockCore.info).toHaveBeenCalledWith('Running in manual mode')
+      expect(mockCore.info).toHaveBeenCalledWith('Manual target directories: ["alpha","beta","gamma"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["alpha","beta","gamma"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('reasons', JSON.stringify({
+        alpha: { reason: 'manual' },
+        beta: { reason: 'manual' },
+        gamma: { reason: 'manual' }
+      }))
+    })
+
+    it('should select directories from newline-separated patterns', async () => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'manual-directories':
+            return '/^(alpha|beta)$/\n!beta\ngamma\n'
+          default:
+            return ''
+        }
+      })
+
+      await main()
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["alpha","gamma"]')
+    })
+
+    it('should fail in strict mode when a requested directory is missing', async () => {
+      mockCore.getBooleanInput.mockImplementation((name: string) => name === 'strict')
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'manual-directories':
+            return 'alpha,omega'
+          default:
+            return ''
+        }
+      })
+
+      await expect(main()).rejects.toThrow('manual-directories entry omega matches no directory')
+    })
+
+    it('should run in manual mode with all directories when input is empty', async () => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'manual-directories':
+            return ''
+          default:
+            return ''
+        }
+      })
+
+      await main()
+
+      expect(mockCore.info).toHaveBeenCalledWith('Running in manual mode')
+      expect(mockCore.info).toHaveBeenCalledWith('Manual target directories: ["alpha","beta","gamma","delta"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["alpha","beta","gamma","delta"]')
+    })
+
+    it('should filter directories that exist in target directory', async () => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'manual-directories':
+            return 'alpha,beta,nonexistent,gamma'
+          default:
+            return ''
+        }
+      })
+
+      await main()
+
+      expect(mockCore.info).toHaveBeenCalledWith('Running in manual mode')
+      expect(mockCore.info).toHaveBeenCalledWith('Manual target directories: ["alpha","beta","gamma"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["alpha","beta","gamma"]')
+    })
+
+    it('should handle manual directories with spaces', async () => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'manual-directories':
+            return 'alpha, beta,gamma ,delta'
+          default:
+            return ''
+        }
+      })
+
+      await main()
+
+      expect(mockCore.info).toHaveBeenCalledWith('Running in manual mode')
+      expect(mockCore.info).toHaveBeenCalledWith('Manual target directories: ["alpha","beta","gamma","delta"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["alpha","beta","gamma","delta"]')
+    })
+  })
+
+  describe('main - config file', () => {
+    beforeEach(() => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'github-token':
+            return 'mock-token'
+          case 'config-file':
+            return '.github/filter-dir.yml'
+          default:
+            return ''
+        }
+      })
+
+      mockGithub.context = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 123 } }
+      } as any
+      mockGithub.getOctokit.mockReturnValue({
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockResolvedValue({
+              data: [
+                { filename: 'apps/web/index.ts', status: 'modified' },
+                { filename: 'infra/network/main.tf', status: 'modified' },
+                { filename: 'apps/api/README.md', status: 'modified' }
+              ]
+            })
+          }
+        }
+      } as any)
+
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.readFileSync.mockReturnValue([
+        'groups:',
+        '  apps:',
+        '    target-parent-path: apps',
+        '    exclude-paths: ["*.md"]',
+        '  infra:',
+        '    target-parent-path: infra'
+      ].join('\n'))
+      mockFs.readdirSync.mockImplementation(((dir: string) => {
+        const names = dir === '/workspace/apps' ? ['api', 'web'] : ['network', 'dns']
+        return names.map(name => ({ name, isDirectory: () => true }))
+      }) as any)
+
+      mockPath.resolve.mockImplementation((p: string) => `/workspace/${p}`)
       mockPath.join.mockImplementation((...args) => args.join('/'))
-      mockPath.relative.mockImplementation((from, to) => {
-        if (from === '/workspace') {
-          return to.replace('/workspace/', '')
+      Object.defineProperty(mockPath, 'sep', {
+        value: '/',
+        configurable: true
+      })
+    })
+
+    it('should emit one output per group plus a combined map', async () => {
+      await main()
+
+      expect(mockCore.startGroup).toHaveBeenCalledWith('Group apps (apps)')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('apps', '["web"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('infra', '["network"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('groups', JSON.stringify({
+        apps: ['web'],
+        infra: ['network']
+      }))
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('filtered-dir-path', expect.anything())
+      expect(mockCore.setOutput).toHaveBeenCalledWith('matrix', JSON.stringify({
+        include: [
+          { name: 'web', path: 'apps/web', 'changed-files': ['apps/web/index.ts'], group: 'apps' },
+          { name: 'network', path: 'infra/network', 'changed-files': ['infra/network/main.tf'], group: 'infra' }
+        ]
+      }))
+      expect(mockCore.setOutput).toHaveBeenCalledWith('count', 2)
+    })
+
+    it('should fail with the offending key for invalid config files', async () => {
+      mockFs.readFileSync.mockReturnValue('groups:\n  apps:\n    target-parent-path: apps\n    depth: -1\n')
+
+      await expect(main()).rejects.toThrow(
+        'Invalid config file .github/filter-dir.yml: groups.apps.depth must be a positive integer'
+      )
+    })
+  })
+
+  describe('main - push mode', () => {
+    let compareCommitsWithBasehead: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      mockCore.getInput.mockImplementation((name: string) => {
+        switch (name) {
+          case 'target-parent-path':
+            return 'src'
+          case 'github-token':
+            return 'mock-token'
+          default:
+            return ''
         }
-        return to
       })
+
+      compareCommitsWithBasehead = vi.fn().mockResolvedValue({
+        data: { files: [{ filename: 'src/app2/file2.ts', status: 'modified' }] }
+      })
+      mockGithub.getOctokit.mockReturnValue({
+        rest: { repos: { compareCommitsWithBasehead } }
+      } as any)
+
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.readdirSync.mockReturnValue([
+        { name: 'app1', isDirectory: () => true },
+        { name: 'app2', isDirectory: () => true }
+      ] as any)
+      mockPath.resolve.mockReturnValue('/workspace/src')
+      mockPath.join.mockImplementation((...args) => args.join('/'))
       Object.defineProperty(mockPath, 'sep', {
         value: '/',
         configurable: true
       })
     })
 
-    it('should handle complex directory structure with nested changes', async () => {
-      const subdirectories = ['frontend', 'backend', 'shared']
-      const changedFiles = [
-        'apps/frontend/src/components/Button.tsx',
-        'apps/shared/utils/helpers.ts',
-        'docs/README.md'
-      ]
+    it('should filter directories changed by the push', async () => {
+      mockGithub.context = {
+        eventName: 'push',
+        ref: 'refs/heads/main',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { before: 'before-sha', after: 'after-sha' }
+      } as any
+
+      await main()
+
+      expect(mockCore.info).toHaveBeenCalledWith('Running in push mode')
+      expect(mockCore.info).toHaveBeenCalledWith('Found 1 changed files')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('mode', 'push')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app2"]')
+    })
+
+    it('should select all directories when there is no base commit', async () => {
+      mockGithub.context = {
+        eventName: 'push',
+        ref: 'refs/heads/main',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {
+          before: '0000000000000000000000000000000000000000',
+          after: 'after-sha',
+          repository: { default_branch: 'main' }
+        }
+      } as any
+
+      await main()
 
-      const result = filterDirectoriesWithChanges(
-        subdirectories,
-        changedFiles,
-        'apps'
+      expect(compareCommitsWithBasehead).not.toHaveBeenCalled()
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1","app2"]')
+    })
+  })
+
+  describe('main - changes by directory', () => {
+    let inputs: Record<string, string>
+
+    beforeEach(() => {
+      inputs = { 'target-parent-path': 'src', 'github-token': 'mock-token' }
+      mockCore.getInput.mockImplementation((name: string) => inputs[name] ?? '')
+
+      mockGithub.context = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 123 } }
+      } as any
+      mockGithub.getOctokit.mockReturnValue({
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockResolvedValue({
+              data: [
+                { filename: 'src/app1/index.ts', status: 'modified', additions: 3, deletions: 1, sha: 'abc', patch: '@@' },
+                { filename: 'src/app2/moved.ts', status: 'renamed', previous_filename: 'src/app1/moved.ts', additions: 0, deletions: 0 },
+                { filename: 'docs/README.md', status: 'added', additions: 10, deletions: 0 }
+              ]
+            })
+          }
+        }
+      } as any)
+
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.readdirSync.mockReturnValue([
+        { name: 'app1', isDirectory: () => true },
+        { name: 'app2', isDirectory: () => true },
+        { name: 'app3', isDirectory: () => true }
+      ] as any)
+      mockPath.resolve.mockReturnValue('/workspace/src')
+      mockPath.join.mockImplementation((...args) => args.join('/'))
+      mockPath.dirname.mockImplementation((p: string) => p.slice(0, p.lastIndexOf('/')))
+    })
+
+    it('should output the changed files of each selected directory with status and line counts', async () => {
+      await main()
+
+      const renamed = {
+        filename: 'src/app2/moved.ts',
+        status: 'renamed',
+        previous_filename: 'src/app1/moved.ts',
+        additions: 0,
+        deletions: 0
+      }
+      expect(mockCore.setOutput).toHaveBeenCalledWith('changes-by-dir', JSON.stringify({
+        app1: [{ filename: 'src/app1/index.ts', status: 'modified', additions: 3, deletions: 1 }, renamed],
+        app2: [renamed]
+      }))
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled()
+    })
+
+    it('should output every discovered directory and a flag per directory', async () => {
+      await main()
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('all-dirs', '["app1","app2","app3"]')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('changed-app1', true)
+      expect(mockCore.setOutput).toHaveBeenCalledWith('changed-app2', true)
+      expect(mockCore.setOutput).toHaveBeenCalledWith('changed-app3', false)
+    })
+
+    it('should label the pull request with label-template', async () => {
+      inputs['label-template'] = 'dir:{name}'
+      const addLabels = vi.fn().mockResolvedValue({})
+      const listFiles = vi.mocked(mockGithub.getOctokit('')).rest.pulls.listFiles
+      mockGithub.getOctokit.mockReturnValue({
+        rest: {
+          pulls: { listFiles },
+          issues: {
+            listLabelsOnIssue: vi.fn().mockResolvedValue({ data: [] }),
+            listLabelsForRepo: vi.fn().mockResolvedValue({ data: [{ name: 'dir:app1' }, { name: 'dir:app2' }] }),
+            addLabels
+          }
+        }
+      } as any)
+
+      await main()
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('labels', '["dir:app1","dir:app2"]')
+      expect(addLabels).toHaveBeenCalledWith({
+        owner: 'testowner',
+        repo: 'testrepo',
+        issue_number: 123,
+        labels: ['dir:app1', 'dir:app2']
+      })
+    })
+
+    it('should write per-directory file lists when changed-files-dir is set', async () => {
+      inputs['changed-files-dir'] = '/tmp/changes'
+
+      await main()
+
+      expect(mockFs.mkdirSync).toHaveBeenCalledWith('/tmp/changes', { recursive: true })
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+        '/tmp/changes/changes-by-dir.json',
+        expect.stringContaining('"src/app1/index.ts"')
+      )
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+        '/tmp/changes/src/app1.txt',
+        'src/app1/index.ts\nsrc/app1/moved.ts\n'
       )
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith('/tmp/changes/src/app2.txt', 'src/app2/moved.ts\n')
+
+      const matrixCall = mockCore.setOutput.mock.calls.find(([name]) => name === 'matrix')
+      const matrix = JSON.parse(matrixCall![1] as string)
+      expect(matrix.include[0]['changed-files-list']).toBe('/tmp/changes/src/app1.txt')
+    })
+  })
+
+  describe('main - content hashes', () => {
+    let inputs: Record<string, string>
+    let booleanInputs: Record<string, boolean>
+
+    beforeEach(() => {
+      inputs = { 'target-parent-path': 'src', 'github-token': 'mock-token', 'hash-cache-file': '/tmp/hashes.json' }
+      booleanInputs = { 'content-hash': true }
+      mockCore.getInput.mockImplementation((name: string) => inputs[name] ?? '')
+      mockCore.getBooleanInput.mockImplementation((name: string) => booleanInputs[name] ?? false)
+
+      mockGithub.context = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 123 } }
+      } as any
+      mockGithub.getOctokit.mockReturnValue({
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockResolvedValue({
+              data: [
+                { filename: 'src/app1/index.ts', status: 'modified' },
+                { filename: 'src/app2/index.ts', status: 'modified' }
+              ]
+            })
+          }
+        }
+      } as any)
+      mockGit.listTrackedFiles.mockReturnValue(['src/app1/index.ts', 'src/app2/index.ts', 'src/app3/index.ts'])
+
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.lstatSync.mockReturnValue({ isSymbolicLink: () => false, isDirectory: () => false } as any)
+      mockFs.readdirSync.mockReturnValue([
+        { name: 'app1', isDirectory: () => true },
+        { name: 'app2', isDirectory: () => true },
+        { name: 'app3', isDirectory: () => true }
+      ] as any)
+      mockPath.resolve.mockReturnValue('/workspace/src')
+      mockPath.dirname.mockImplementation((p: string) => p.slice(0, p.lastIndexOf('/')))
+    })
+
+    it('should skip changed directories whose contents match the hash cache', async () => {
+      mockFs.readFileSync.mockImplementation(((file: string) => `contents of ${file}`) as any)
+      const app1Hash = hashFiles(['src/app1/index.ts'], 'src/app1')
+      mockFs.readFileSync.mockImplementation(((file: string) => file === '/tmp/hashes.json'
+        ? JSON.stringify({ 'src/app1': app1Hash, 'src/app2': 'stale', 'src/old': 'kept' })
+        : `contents of ${file}`) as any)
+
+      await main()
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app2"]')
+      expect(mockCore.info).toHaveBeenCalledWith('Skipping app1: contents match the hash from the previous run')
+
+      const hashesCall = mockCore.setOutput.mock.calls.find(([name]) => name === 'hashes')
+      const hashes = JSON.parse(hashesCall![1] as string)
+      expect(Object.keys(hashes)).toEqual(['app1', 'app2', 'app3'])
+      expect(hashes.app1).toBe(app1Hash)
+      expect(hashes.app2).not.toBe(app1Hash)
+
+      const written = JSON.parse(mockFs.writeFileSync.mock.calls[0][1] as string)
+      expect(mockFs.writeFileSync.mock.calls[0][0]).toBe('/tmp/hashes.json')
+      expect(written).toEqual({
+        'src/app1': app1Hash,
+        'src/app2': hashes.app2,
+        'src/app3': hashes.app3,
+        'src/old': 'kept'
+      })
+    })
+
+    it('should ignore the hash cache when content-hash is off', async () => {
+      booleanInputs = {}
+
+      await main()
+
+      expect(mockCore.warning).toHaveBeenCalledWith('hash-cache-file is set but no group enables content-hash; ignoring it')
+      expect(mockGit.listTrackedFiles).not.toHaveBeenCalled()
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled()
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1","app2"]')
+    })
+  })
+
+  describe('main - code owners', () => {
+    let booleanInputs: Record<string, boolean>
+    let requestReviewers: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      booleanInputs = { codeowners: true }
+      mockCore.getInput.mockImplementation((name: string) =>
+        ({ 'target-parent-path': 'src', 'github-token': 'mock-token' } as Record<string, string>)[name] ?? '')
+      mockCore.getBooleanInput.mockImplementation((name: string) => booleanInputs[name] ?? false)
+
+      requestReviewers = vi.fn().mockResolvedValue({})
+      mockGithub.context = {
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 123, user: { login: 'author' } } }
+      } as any
+      mockGithub.getOctokit.mockReturnValue({
+        rest: {
+          pulls: {
+            listFiles: vi.fn().mockResolvedValue({
+              data: [
+                { filename: 'src/app1/index.ts', status: 'modified' },
+                { filename: 'src/app2/schema.sql', status: 'modified' }
+              ]
+            }),
+            requestReviewers
+          }
+        }
+      } as any)
+
+      mockFs.existsSync.mockImplementation((file: fs.PathLike) => file !== '/workspace/.github/CODEOWNERS')
+      mockFs.readFileSync.mockReturnValue('/src/app1/ @org/app1-team\n/src/app2/ @bob\n*.sql @org/dba\n')
+      mockFs.readdirSync.mockReturnValue([
+        { name: 'app1', isDirectory: () => true },
+        { name: 'app2', isDirectory: () => true }
+      ] as any)
+      mockPath.resolve.mockReturnValue('/workspace/src')
+      mockPath.join.mockImplementation((...args) => args.join('/'))
+    })
+
+    it('should output the owners of each selected directory from the root CODEOWNERS', async () => {
+      await main()
+
+      expect(mockFs.readFileSync).toHaveBeenCalledWith('/workspace/CODEOWNERS', 'utf8')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('owners', JSON.stringify({
+        app1: ['@org/app1-team'],
+        app2: ['@bob', '@org/dba']
+      }))
+      expect(mockCore.setOutput).toHaveBeenCalledWith('all-owners', '["@org/app1-team","@bob","@org/dba"]')
+      expect(requestReviewers).not.toHaveBeenCalled()
+    })
+
+    it('should request reviews from the owners with request-reviews', async () => {
+      booleanInputs = { 'request-reviews': true }
+
+      await main()
+
+      expect(requestReviewers).toHaveBeenCalledWith({
+        owner: 'testowner',
+        repo: 'testrepo',
+        pull_number: 123,
+        reviewers: ['bob'],
+        team_reviewers: ['app1-team', 'dba']
+      })
+    })
 
-      expect(result).toEqual(['frontend', 'shared'])
+    it('should warn instead of failing when review requests fail', async () => {
+      booleanInputs = { 'request-reviews': true }
+      requestReviewers.mockRejectedValue(Object.assign(new Error('Reviews may only be requested from collaborators'), { status: 422 }))
+
+      await main()
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to request reviews from code owners: Reviews may only be requested from collaborators'
+      )
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
     })
+  })
+
+  describe('main - event modes', () => {
+    let compareCommitsWithBasehead: ReturnType<typeof vi.fn>
+    let inputs: Record<string, string>
+
+    beforeEach(() => {
+      inputs = { 'target-parent-path': 'src', 'github-token': 'mock-token' }
+      mockCore.getInput.mockImplementation((name: string) => inputs[name] ?? '')
+
+      compareCommitsWithBasehead = vi.fn().mockResolvedValue({
+        data: { files: [{ filename: 'src/app2/file2.ts', status: 'modified' }] }
+      })
+      mockGithub.getOctokit.mockReturnValue({
+        rest: {
+          repos: { compareCommitsWithBasehead },
+          actions: {
+            getWorkflowRun: vi.fn().mockResolvedValue({ data: { workflow_id: 42 } }),
+            listWorkflowRuns: vi.fn().mockResolvedValue({
+              data: { workflow_runs: [{ head_sha: 'last-green-sha', html_url: 'https://github.com/runs/1' }] }
+            })
+          }
+        }
+      } as any)
 
-    it('should handle Windows-style paths', () => {
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.readdirSync.mockReturnValue([
+        { name: 'app1', isDirectory: () => true },
+        { name: 'app2', isDirectory: () => true }
+      ] as any)
+      mockPath.resolve.mockReturnValue('/workspace/src')
+      mockPath.join.mockImplementation((...args) => args.join('/'))
       Object.defineProperty(mockPath, 'sep', {
-        value: '\\',
+        value: '/',
         configurable: true
       })
-      mockPath.join.mockImplementation((...args) => args.join('\\'))
-      mockPath.relative.mockImplementation((from, to) => to)
+    })
+
+    it('should compare the merge group base and head', async () => {
+      mockGithub.context = {
+        eventName: 'merge_group',
+        sha: 'merge-head-sha',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { merge_group: { base_sha: 'queue-base-sha', head_sha: 'merge-head-sha' } }
+      } as any
+
+      await main()
+
+      expect(mockCore.info).toHaveBeenCalledWith('Running in merge queue mode')
+      expect(compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'queue-base-sha...merge-head-sha' })
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('mode', 'merge_group')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app2"]')
+    })
+
+    it('should compare the base and head refs of a workflow dispatch', async () => {
+      inputs['base-ref'] = 'v1.0.0'
+      inputs['head-ref'] = 'release/2.0'
+      mockGithub.context = {
+        eventName: 'workflow_dispatch',
+        sha: 'dispatch-sha',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {}
+      } as any
 
-      const subdirectories = ['app1', 'app2']
-      const changedFiles = ['src\\app1\\file.ts']
+      await main()
 
-      const result = filterDirectoriesWithChanges(
-        subdirectories,
-        changedFiles,
-        'src'
+      expect(compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'v1.0.0...release/2.0' })
       )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('mode', 'workflow_dispatch')
+    })
+
+    it('should diff a merge group with local git', async () => {
+      inputs['change-source'] = 'git'
+      mockGit.getNameStatusDiff.mockReturnValue([{ filename: 'src/app1/index.ts', status: 'added' }])
+      mockGithub.context = {
+        eventName: 'merge_group',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { merge_group: { base_sha: 'queue-base-sha', head_sha: 'merge-head-sha' } }
+      } as any
+
+      await main()
 
-      expect(result).toEqual(['app1'])
+      expect(mockGit.getNameStatusDiff).toHaveBeenCalledWith('queue-base-sha', 'merge-head-sha')
+      expect(compareCommitsWithBasehead).not.toHaveBeenCalled()
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1"]')
     })
 
-    it('should handle special characters in directory names', () => {
-      const subdirectories = ['app-1', 'app_2', 'app.test']
-      const changedFiles = [
-        'src/app-1/file.ts',
-        'src/app.test/spec.js'
-      ]
+    it('should diff the pull request head for pull_request_target with local git', async () => {
+      inputs['change-source'] = 'git'
+      mockGit.getNameStatusDiff.mockReturnValue([])
+      mockGithub.context = {
+        eventName: 'pull_request_target',
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { pull_request: { number: 5, base: { sha: 'base-sha' }, head: { sha: 'pr-head-sha' } } }
+      } as any
+
+      await main()
+
+      expect(mockGit.getNameStatusDiff).toHaveBeenCalledWith('base-sha', 'pr-head-sha')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('mode', 'pull_request_target')
+    })
+
+    it('should compare a scheduled run against the last successful run', async () => {
+      mockGithub.context = {
+        eventName: 'schedule',
+        ref: 'refs/heads/main',
+        sha: 'current-sha',
+        runId: 99,
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {}
+      } as any
+
+      await main()
+
+      const octokit = mockGithub.getOctokit.mock.results[0].value
+      expect(octokit.rest.actions.getWorkflowRun).toHaveBeenCalledWith({ owner: 'testowner', repo: 'testrepo', run_id: 99 })
+      expect(octokit.rest.actions.listWorkflowRuns).toHaveBeenCalledWith({
+        owner: 'testowner',
+        repo: 'testrepo',
+        workflow_id: 42,
+        branch: 'main',
+        status: 'success',
+        per_page: 1
+      })
+      expect(compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'last-green-sha...current-sha' })
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('mode', 'schedule')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app2"]')
+    })
+
+    it('should compare a push with the last successful run when configured', async () => {
+      inputs['compare-with'] = 'last-successful-run'
+      mockGithub.context = {
+        eventName: 'push',
+        ref: 'refs/heads/main',
+        sha: 'after-sha',
+        runId: 99,
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: { before: 'before-sha', after: 'after-sha' }
+      } as any
+
+      await main()
+
+      expect(compareCommitsWithBasehead).toHaveBeenCalledTimes(1)
+      expect(compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'last-green-sha...after-sha' })
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('mode', 'push')
+    })
 
-      const result = filterDirectoriesWithChanges(
-        subdirectories,
-        changedFiles,
-        'src'
+    it('should prefer base-ref over the last successful run', async () => {
+      inputs['compare-with'] = 'last-successful-run'
+      inputs['base-ref'] = 'v1.0.0'
+      mockGithub.context = {
+        eventName: 'workflow_dispatch',
+        ref: 'refs/heads/main',
+        sha: 'dispatch-sha',
+        runId: 99,
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {}
+      } as any
+
+      await main()
+
+      const octokit = mockGithub.getOctokit.mock.results[0].value
+      expect(octokit.rest.actions.listWorkflowRuns).not.toHaveBeenCalled()
+      expect(compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'v1.0.0...dispatch-sha' })
       )
+    })
+
+    it('should select all directories on the first scheduled run', async () => {
+      mockGithub.getOctokit.mockReturnValue({
+        rest: {
+          repos: { compareCommitsWithBasehead },
+          actions: {
+            getWorkflowRun: vi.fn().mockResolvedValue({ data: { workflow_id: 42 } }),
+            listWorkflowRuns: vi.fn().mockResolvedValue({ data: { workflow_runs: [] } })
+          }
+        }
+      } as any)
+      mockGithub.context = {
+        eventName: 'schedule',
+        ref: 'refs/heads/main',
+        sha: 'current-sha',
+        runId: 99,
+        repo: { owner: 'testowner', repo: 'testrepo' },
+        payload: {}
+      } as any
 
-      expect(result).toEqual(['app-1', 'app.test'])
+      await main()
+
+      expect(mockCore.info).toHaveBeenCalledWith('No successful run of this workflow on main yet')
+      expect(compareCommitsWithBasehead).not.toHaveBeenCalled()
+      expect(mockCore.setOutput).toHaveBeenCalledWith('filtered-dir-path', '["app1","app2"]')
     })
   })
+
 })
\ No newline at end of file
@@ -1,143 +1,225 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
-import * as fs from "fs";
-import * as path from "path";
+import { parsePatternList } from "./matcher";
+import { parseDependencySources } from "./dependencies";
+import {
+  loadConfigFile,
+  parseDepth,
+  parseLimit,
+  parseListInput,
+  parsePercent,
+  parseSortOrder,
+  parseThresholdFallback,
+  type GroupConfig,
+} from "./config";
+import { renderReport, upsertPullRequestComment, writeJobSummary, type GroupReport } from "./report";
+import {
+  getChanges,
+  getEventMode,
+  parseChangeSource,
+  parseCompareWith,
+  type ChangeOptions,
+  type Changes,
+  type EventMode,
+  type GitHubContext,
+} from "./changes";
+import { checkManualEntries, selectGroupDirectories } from "./selection";
+import { buildOutputs, getHashCacheEntries, parseListSeparator, setActionOutputs } from "./outputs";
+import { readHashCache, writeHashCache, type HashCache } from "./hash";
+import {
+  getAllOwners,
+  getDirectoryOwners,
+  loadCodeowners,
+  requestOwnerReviews,
+  type CodeownersRule,
+} from "./codeowners";
+import { getDirectoryLabels, syncPullRequestLabels } from "./labels";
+
+export * from "./changes";
+export * from "./selection";
+export * from "./outputs";
+export { parseDepth } from "./config";
+
+export type OnError = "fail" | "all" | "none";
+
+export function parseOnError(input: string): OnError {
+  const value: string = input.trim().toLowerCase() || "fail";
+
+  if (value !== "fail" && value !== "all" && value !== "none") {
+    throw new Error(`Invalid on-error: ${input} (expected "fail", "all" or "none")`);
+  }
 
-export interface PullRequestFile {
-  filename: string;
-  status: string;
+  return value;
 }
 
-export interface GitHubContext {
-  repo: {
-    owner: string;
-    repo: string;
-  };
-  payload: {
-    pull_request?: {
-      number: number;
-    };
+export function getGroupFromInputs(): GroupConfig {
+  return {
+    name: "default",
+    targetParentPath: core.getInput("target-parent-path"),
+    depth: parseDepth(core.getInput("depth")),
+    includePaths: parsePatternList(core.getInput("include-paths")),
+    excludePaths: parsePatternList(core.getInput("exclude-paths")),
+    globalPaths: parsePatternList(core.getInput("global-paths")),
+    markerFiles: parseListInput(core.getInput("marker-files")),
+    ignoreRemoved: core.getBooleanInput("ignore-removed"),
+    skipHidden: core.getBooleanInput("skip-hidden-directories"),
+    respectGitignore: core.getBooleanInput("respect-gitignore"),
+    dependencySources: parseDependencySources(parseListInput(core.getInput("dependency-sources"))),
+    dependencyMapFile: core.getInput("dependency-map").trim() || undefined,
+    caseInsensitive: core.getBooleanInput("case-insensitive"),
+    contentHash: core.getBooleanInput("content-hash"),
+    labelTemplate: core.getInput("label-template").trim(),
+    maxDirectories: parseLimit(core.getInput("max-directories"), "max-directories"),
+    maxChangedFiles: parseLimit(core.getInput("max-changed-files"), "max-changed-files"),
+    maxDirectoriesPercent: parsePercent(core.getInput("max-directories-percent"), "max-directories-percent"),
+    thresholdFallback: parseThresholdFallback(core.getInput("threshold-fallback")),
+    sort: parseSortOrder(core.getInput("sort")),
+    batchSize: parseLimit(core.getInput("batch-size"), "batch-size"),
   };
 }
 
-export function parseManualDirectories(input: string): string[] {
-  if (!input.trim()) {
-    return [];
+function getFallbackChanges(error: unknown, onError: OnError): Changes {
+  if (onError === "fail") {
+    throw error;
   }
-  
-  return input
-    .split(',')
-    .map(dir => dir.trim())
-    .filter(dir => dir.length > 0);
+
+  const errorMessage: string = error instanceof Error ? error.message : String(error);
+  core.warning(`Could not determine changed files: ${errorMessage}`);
+  core.info(`on-error is "${onError}"; selecting ${onError === "all" ? "every" : "no"} directory`);
+
+  return { mode: "fallback", selectAll: onError === "all" };
 }
 
-export function getManualTargetDirectories(
-  manualDirectories: string[],
-  availableDirectories: string[]
-): string[] {
-  if (manualDirectories.length === 0) {
-    return availableDirectories;
+/**
+ * Writes the filter result to the job summary and, when enabled, to a sticky
+ * comment on the pull request. Reporting failures never fail the action.
+ */
+async function publishReport(
+  reports: GroupReport[],
+  showGroups: boolean,
+  context: GitHubContext,
+  token: string
+): Promise<void> {
+  const jobSummary: boolean = core.getBooleanInput("job-summary");
+  const prComment: boolean = core.getBooleanInput("pr-comment");
+  if (!jobSummary && !prComment) {
+    return;
+  }
+
+  const markdown: string = renderReport(reports, showGroups);
+
+  if (jobSummary) {
+    await writeJobSummary(markdown);
+  }
+
+  if (prComment) {
+    try {
+      await upsertPullRequestComment(token, context, markdown);
+    } catch (error: unknown) {
+      const errorMessage: string = error instanceof Error ? error.message : String(error);
+      core.warning(`Failed to update the pull request comment: ${errorMessage}`);
+    }
   }
-  
-  return manualDirectories.filter(dir => availableDirectories.includes(dir));
 }
 
-export async function getChangedFiles(token: string, context: GitHubContext): Promise<string[]> {
-  if (!context.payload.pull_request) {
-    throw new Error("This action only works on pull requests");
+export async function main(): Promise<void> {
+  const token: string = core.getInput("github-token") || process.env.GITHUB_TOKEN || "";
+  const changeOptions: ChangeOptions = {
+    changeSource: parseChangeSource(core.getInput("change-source")),
+    compareWith: parseCompareWith(core.getInput("compare-with")),
+    baseRef: core.getInput("base-ref").trim(),
+    headRef: core.getInput("head-ref").trim(),
+    manualDirectories: core.getInput("manual-directories"),
+    strict: core.getBooleanInput("strict"),
+  };
+  const configFile: string = core.getInput("config-file").trim();
+  const listSeparator: string = parseListSeparator(core.getInput("list-separator"));
+  const onError: OnError = parseOnError(core.getInput("on-error"));
+  const changedFilesDir: string = core.getInput("changed-files-dir").trim();
+  const hashCacheFile: string = core.getInput("hash-cache-file").trim();
+  const requestReviews: boolean = core.getBooleanInput("request-reviews");
+  const codeowners: boolean = core.getBooleanInput("codeowners") || requestReviews;
+
+  const groups: GroupConfig[] = configFile ? loadConfigFile(configFile) : [getGroupFromInputs()];
+  let hashCache: HashCache | undefined;
+  if (hashCacheFile) {
+    if (!groups.some((group: GroupConfig) => group.contentHash)) {
+      core.warning("hash-cache-file is set but no group enables content-hash; ignoring it");
+    } else {
+      hashCache = readHashCache(hashCacheFile);
+    }
   }
+  const context = github.context as GitHubContext;
 
-  const octokit = github.getOctokit(token);
-  
-  const { data: files } = await octokit.rest.pulls.listFiles({
-    owner: context.repo.owner,
-    repo: context.repo.repo,
-    pull_number: context.payload.pull_request.number,
-  });
+  const mode: EventMode = getEventMode(context, changeOptions);
+  core.setOutput("mode", mode);
 
-  return files.map((file: PullRequestFile) => file.filename);
-}
+  let changes: Changes;
+  try {
+    changes = await getChanges(context, token, mode, changeOptions);
+  } catch (error: unknown) {
+    changes = getFallbackChanges(error, onError);
+  }
+
+  const reports: GroupReport[] = [];
 
-export function getSubdirectories(targetPath: string): string[] {
-  if (!fs.existsSync(targetPath)) {
-    throw new Error(`Target directory does not exist: ${targetPath}`);
+  for (const group of groups) {
+    if (configFile) {
+      core.startGroup(`Group ${group.name} (${group.targetParentPath})`);
+    }
+    try {
+      reports.push({ group, result: selectGroupDirectories(group, changes, hashCache) });
+    } finally {
+      if (configFile) {
+        core.endGroup();
+      }
+    }
   }
 
-  return fs.readdirSync(targetPath, { withFileTypes: true })
-    .filter(dirent => dirent.isDirectory())
-    .map(dirent => dirent.name);
-}
+  checkManualEntries(reports, changes);
 
-export function filterDirectoriesWithChanges(
-  subdirectories: string[],
-  changedFiles: string[],
-  targetParentPath: string
-): string[] {
-  const dirsWithChanges: string[] = [];
-
-  for (const dir of subdirectories) {
-    const dirPath: string = path.join(targetParentPath, dir);
-    const hasChangedFiles: boolean = changedFiles.some((file: string) => {
-      return file.startsWith(dirPath + path.sep) || file === dirPath;
-    });
-
-    if (hasChangedFiles) {
-      dirsWithChanges.push(dir);
+  if (codeowners) {
+    const rules: CodeownersRule[] = loadCodeowners(core.getInput("codeowners-file").trim());
+    for (const report of reports) {
+      report.owners = getDirectoryOwners(rules, report.group, report.result);
     }
   }
 
-  return dirsWithChanges;
-}
+  setActionOutputs(buildOutputs(reports, {
+    configMode: Boolean(configFile),
+    listSeparator,
+    changedFilesDir: changedFilesDir || undefined,
+  }));
 
-export async function main(): Promise<void> {
-  const targetParentPath: string = core.getInput("target-parent-path");
-  const token: string = core.getInput("github-token") || process.env.GITHUB_TOKEN || "";
-  const manualDirectoriesInput: string = core.getInput("manual-directories");
-  
-  const context = github.context as GitHubContext;
-  const targetPath: string = path.resolve(targetParentPath);
-  const subdirectories: string[] = getSubdirectories(targetPath);
-  core.debug(`Found ${subdirectories.length} subdirectories: ${JSON.stringify(subdirectories)}`);
-
-  let result: string[];
-
-  if (manualDirectoriesInput || !context.payload.pull_request) {
-    core.info("Running in manual mode");
-    
-    const manualDirectories: string[] = parseManualDirectories(manualDirectoriesInput);
-    core.debug(`Manual directories input: ${JSON.stringify(manualDirectories)}`);
-    
-    result = getManualTargetDirectories(manualDirectories, subdirectories);
-    core.info(`Manual target directories: ${JSON.stringify(result)}`);
-  } else {
-    core.info("Running in pull request mode");
-    
-    if (!token) {
-      throw new Error("GitHub token is required for pull request mode");
+  if (hashCache) {
+    writeHashCache(hashCacheFile, hashCache, getHashCacheEntries(reports));
+  }
+
+  if (groups.some((group: GroupConfig) => group.labelTemplate)) {
+    try {
+      await syncPullRequestLabels(token, context, getDirectoryLabels(reports));
+    } catch (error: unknown) {
+      const errorMessage: string = error instanceof Error ? error.message : String(error);
+      core.warning(`Failed to update pull request labels: ${errorMessage}`);
     }
-    
-    const changedFiles: string[] = await getChangedFiles(token, context);
-    core.info(`Found ${changedFiles.length} changed files`);
-    core.debug(`Changed files: ${JSON.stringify(changedFiles)}`);
-
-    result = filterDirectoriesWithChanges(
-      subdirectories,
-      changedFiles,
-      targetParentPath
-    );
-    core.info(`Directories with changes: ${JSON.stringify(result)}`);
   }
 
-  const resultJson: string = JSON.stringify(result);
-  core.setOutput("filtered-dir-path", resultJson);
+  if (requestReviews) {
+    try {
+      await requestOwnerReviews(token, context, getAllOwners(reports));
+    } catch (error: unknown) {
+      const errorMessage: string = error instanceof Error ? error.message : String(error);
+      core.warning(`Failed to request reviews from code owners: ${errorMessage}`);
+    }
+  }
+
+  await publishReport(reports, Boolean(configFile), context, token);
 }
 
 // Only run main if this is the entry point (not during testing)
 if (process.env.NODE_ENV !== 'test') {
-  try {
-    main();
-  } catch (error: unknown) {
+  main().catch((error: unknown) => {
     const errorMessage: string = error instanceof Error ? error.message : String(error);
     core.setFailed(errorMessage);
-  }
-}
\ No newline at end of file
+  });
+}
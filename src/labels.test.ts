@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as github from '@actions/github'
+import { getDirectoryLabels, getLabelPrefix, renderLabel, syncPullRequestLabels } from './labels'
+import { createGroupConfig } from './config'
+import type { GitHubContext } from './changes'
+import type { GroupResult } from './selection'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+
+const mockGithub = vi.mocked(github)
+
+function createResult(directories: string[]): GroupResult {
+  return {
+    directories,
+    reasons: new Map(),
+    globalTriggers: [],
+    changedFiles: new Map(),
+    fileChanges: new Map(),
+    deletedDirectories: [],
+    subdirectories: directories,
+    hashes: new Map(),
+    thresholdsExceeded: []
+  }
+}
+
+describe('labels', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('renderLabel', () => {
+    it('should fill in the directory name, path and group', () => {
+      const group = createGroupConfig({ name: 'services', targetParentPath: './services/' })
+
+      expect(renderLabel('svc:{name}', group, 'api')).toBe('svc:api')
+      expect(renderLabel('{group}:{path}', group, 'api')).toBe('services:services/api')
+    })
+  })
+
+  describe('getLabelPrefix', () => {
+    it('should return the text before the first placeholder', () => {
+      expect(getLabelPrefix('dir:{name}')).toBe('dir:')
+      expect(getLabelPrefix('{name}')).toBe('')
+      expect(getLabelPrefix('needs-build')).toBe('needs-build')
+    })
+  })
+
+  describe('getDirectoryLabels', () => {
+    it('should collect labels and prefixes of groups with a template', () => {
+      expect(getDirectoryLabels([
+        { group: createGroupConfig({ targetParentPath: 'services', labelTemplate: 'svc:{name}' }), result: createResult(['api']) },
+        { group: createGroupConfig({ targetParentPath: 'apps', labelTemplate: 'app:{name}' }), result: createResult([]) },
+        { group: createGroupConfig({ targetParentPath: 'libs' }), result: createResult(['core']) },
+        { group: createGroupConfig({ targetParentPath: 'tools', labelTemplate: '{name}' }), result: createResult(['lint']) }
+      ])).toEqual({ labels: ['svc:api', 'lint'], prefixes: ['svc:', 'app:'] })
+    })
+  })
+
+  describe('syncPullRequestLabels', () => {
+    const context: GitHubContext = {
+      repo: { owner: 'acme', repo: 'monorepo' },
+      payload: { pull_request: { number: 7 } }
+    }
+    let issues: Record<string, ReturnType<typeof vi.fn>>
+
+    beforeEach(() => {
+      issues = {
+        listLabelsOnIssue: vi.fn().mockResolvedValue({ data: [{ name: 'svc:web' }, { name: 'SVC:api' }, { name: 'bug' }] }),
+        listLabelsForRepo: vi.fn().mockResolvedValue({ data: [{ name: 'svc:worker' }] }),
+        createLabel: vi.fn().mockResolvedValue({}),
+        addLabels: vi.fn().mockResolvedValue({}),
+        removeLabel: vi.fn().mockResolvedValue({})
+      }
+      mockGithub.getOctokit.mockReturnValue({ rest: { issues } } as any)
+    })
+
+    it('should create missing labels, add them and remove stale ones with the same prefix', async () => {
+      await syncPullRequestLabels('token', context, {
+        labels: ['svc:api', 'svc:worker', 'svc:billing'],
+        prefixes: ['svc:']
+      })
+
+      expect(issues.createLabel).toHaveBeenCalledTimes(1)
+      expect(issues.createLabel).toHaveBeenCalledWith({ owner: 'acme', repo: 'monorepo', name: 'svc:billing', color: 'ededed' })
+      expect(issues.addLabels).toHaveBeenCalledWith({
+        owner: 'acme',
+        repo: 'monorepo',
+        issue_number: 7,
+        labels: ['svc:worker', 'svc:billing']
+      })
+      expect(issues.removeLabel).toHaveBeenCalledTimes(1)
+      expect(issues.removeLabel).toHaveBeenCalledWith({ owner: 'acme', repo: 'monorepo', issue_number: 7, name: 'svc:web' })
+    })
+
+    it('should only remove stale labels when nothing is selected', async () => {
+      await syncPullRequestLabels('token', context, { labels: [], prefixes: ['svc:'] })
+
+      expect(issues.listLabelsForRepo).not.toHaveBeenCalled()
+      expect(issues.addLabels).not.toHaveBeenCalled()
+      expect(issues.removeLabel.mock.calls.map(([params]) => params.name)).toEqual(['svc:web', 'SVC:api'])
+    })
+
+    it('should skip events without a pull request', async () => {
+      await syncPullRequestLabels('token', { ...context, payload: {} }, { labels: ['svc:api'], prefixes: ['svc:'] })
+
+      expect(mockGithub.getOctokit).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import * as github from "@actions/github";
+import { requestWithRetry, type RequestOptions } from "./api";
+import { log } from "./log";
+import { toRepoPath } from "./paths";
+import { getParentRepoPath } from "./selection";
+import type { GitHubContext } from "./changes";
+import type { GroupConfig } from "./config";
+import type { GroupReport } from "./report";
+
+const LABELS_PER_PAGE = 100;
+const LABEL_COLOR = "ededed";
+
+export interface DirectoryLabels {
+  labels: string[];
+  // Labels on the pull request starting with one of these are managed by the
+  // action and removed when their directory is no longer selected
+  prefixes: string[];
+}
+
+/**
+ * Fills in a label template. `{name}` is the directory name, `{path}` its
+ * repository path and `{group}` the group name.
+ */
+export function renderLabel(template: string, group: GroupConfig, dir: string): string {
+  return template
+    .replace(/\{name\}/g, dir)
+    .replace(/\{path\}/g, toRepoPath(getParentRepoPath(group), dir))
+    .replace(/\{group\}/g, group.name);
+}
+
+/**
+ * Returns the fixed part of a template before its first placeholder.
+ */
+export function getLabelPrefix(template: string): string {
+  const placeholder: number = template.indexOf("{");
+  return placeholder === -1 ? template : template.slice(0, placeholder);
+}
+
+export function getDirectoryLabels(reports: GroupReport[]): DirectoryLabels {
+  const labels: Set<string> = new Set();
+  const prefixes: Set<string> = new Set();
+
+  for (const { group, result } of reports) {
+    if (!group.labelTemplate) {
+      continue;
+    }
+
+    result.directories.forEach((dir: string) => labels.add(renderLabel(group.labelTemplate, group, dir)));
+
+    // Without a fixed prefix every label would count as stale
+    const prefix: string = getLabelPrefix(group.labelTemplate);
+    if (prefix) {
+      prefixes.add(prefix);
+    }
+  }
+
+  return { labels: [...labels], prefixes: [...prefixes] };
+}
+
+async function listLabels(fetchPage: (page: number) => Promise<{ data: Array<{ name: string }> }>): Promise<string[]> {
+  const names: string[] = [];
+
+  for (let page = 1; ; page++) {
+    const { data } = await fetchPage(page);
+    names.push(...data.map((label: { name: string }) => label.name));
+
+    if (data.length < LABELS_PER_PAGE) {
+      return names;
+    }
+  }
+}
+
+/**
+ * Adds the labels to the pull request, creating any the repository does not
+ * have yet, and removes labels with one of the prefixes that are no longer
+ * wanted. Label names are compared case-insensitively, as GitHub does.
+ */
+export async function syncPullRequestLabels(
+  token: string,
+  context: GitHubContext,
+  { labels, prefixes }: DirectoryLabels
+): Promise<void> {
+  const pullRequest = context.payload.pull_request;
+  if (!pullRequest) {
+    log.info("Not a pull request; skipping labels");
+    return;
+  }
+
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = context.repo;
+  const issue = { owner, repo, issue_number: pullRequest.number };
+  const requestOptions: RequestOptions = { action: "update pull request labels", permission: "pull-requests: write" };
+  const wanted: Set<string> = new Set(labels.map((label: string) => label.toLowerCase()));
+
+  const current: string[] = await listLabels((page: number) => requestWithRetry(
+    () => octokit.rest.issues.listLabelsOnIssue({ ...issue, per_page: LABELS_PER_PAGE, page }),
+    requestOptions
+  ));
+  const currentKeys: Set<string> = new Set(current.map((label: string) => label.toLowerCase()));
+  const missing: string[] = labels.filter((label: string) => !currentKeys.has(label.toLowerCase()));
+  const stale: string[] = current.filter((label: string) =>
+    !wanted.has(label.toLowerCase()) &&
+    prefixes.some((prefix: string) => label.toLowerCase().startsWith(prefix.toLowerCase()))
+  );
+
+  if (missing.length > 0) {
+    const existing: Set<string> = new Set((await listLabels((page: number) => requestWithRetry(
+      () => octokit.rest.issues.listLabelsForRepo({ owner, repo, per_page: LABELS_PER_PAGE, page }),
+      requestOptions
+    ))).map((label: string) => label.toLowerCase()));
+
+    for (const label of missing.filter((name: string) => !existing.has(name.toLowerCase()))) {
+      await requestWithRetry(
+        () => octokit.rest.issues.createLabel({ owner, repo, name: label, color: LABEL_COLOR }),
+        { action: "create labels", permission: "issues: write" }
+      );
+      log.info(`Created label ${label}`);
+    }
+
+    await requestWithRetry(() => octokit.rest.issues.addLabels({ ...issue, labels: missing }), requestOptions);
+    log.info(`Added labels: ${missing.join(", ")}`);
+  }
+
+  for (const label of stale) {
+    await requestWithRetry(() => octokit.rest.issues.removeLabel({ ...issue, name: label }), requestOptions);
+    log.info(`Removed label ${label}`);
+  }
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  buildOutputs,
+  createGroupConfig,
+  filterDirectories,
+  fromFiles,
+  fromManualSelection
+} from './lib'
+
+vi.mock('@actions/core')
+
+describe('lib', () => {
+  const originalCwd: string = process.cwd()
+  let repoPath: string
+
+  beforeAll(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-dir-lib-'))
+    for (const dir of ['apps/api', 'apps/web', 'libs/core']) {
+      fs.mkdirSync(path.join(repoPath, dir), { recursive: true })
+    }
+    process.chdir(repoPath)
+  })
+
+  afterAll(() => {
+    process.chdir(originalCwd)
+    fs.rmSync(repoPath, { recursive: true, force: true })
+  })
+
+  describe('createGroupConfig', () => {
+    it('should fill in defaults for omitted options', () => {
+      const group = createGroupConfig({ targetParentPath: 'apps', includePaths: ['*.ts'] })
+
+      expect(group).toMatchObject({
+        name: 'default',
+        targetParentPath: 'apps',
+        depth: 1,
+        includePaths: ['*.ts'],
+        excludePaths: [],
+        caseInsensitive: false
+      })
+    })
+  })
+
+  describe('filterDirectories', () => {
+    it('should select directories from a list of changed files', async () => {
+      const { changes, reports } = await filterDirectories({
+        groups: [createGroupConfig({ targetParentPath: 'apps' })],
+        changes: fromFiles(['apps/api/index.ts', 'libs/core/index.ts'])
+      })
+
+      expect(changes).toEqual({
+        mode: 'changes',
+        files: [
+          { filename: 'apps/api/index.ts', status: 'modified' },
+          { filename: 'libs/core/index.ts', status: 'modified' }
+        ]
+      })
+      expect(reports[0].result.directories).toEqual(['api'])
+      expect(reports[0].result.changedFiles.get('api')).toEqual(['apps/api/index.ts'])
+    })
+
+    it('should filter every group with the same changes', async () => {
+      const { reports } = await filterDirectories({
+        groups: [
+          createGroupConfig({ name: 'apps', targetParentPath: 'apps' }),
+          createGroupConfig({ name: 'libs', targetParentPath: 'libs' })
+        ],
+        changes: { mode: 'changes', files: [{ filename: 'libs/core/index.ts', status: 'added' }] }
+      })
+
+      expect(reports.map(report => report.result.directories)).toEqual([[], ['core']])
+    })
+
+    it('should accept manual entries that only match in one of several groups', async () => {
+      const { reports } = await filterDirectories({
+        groups: [
+          createGroupConfig({ name: 'apps', targetParentPath: 'apps' }),
+          createGroupConfig({ name: 'libs', targetParentPath: 'libs' })
+        ],
+        changes: fromManualSelection('api', true)
+      })
+
+      expect(reports.map(report => report.result.directories)).toEqual([['api'], []])
+    })
+
+    it('should accept a manual selection', async () => {
+      const { reports } = await filterDirectories({
+        groups: [createGroupConfig({ targetParentPath: 'apps' })],
+        changes: fromManualSelection('web, !api')
+      })
+
+      expect(reports[0].result.directories).toEqual(['web'])
+    })
+  })
+
+  describe('thresholds', () => {
+    it('should select every directory when a threshold is crossed', async () => {
+      const { reports } = await filterDirectories({
+        groups: [createGroupConfig({ targetParentPath: 'apps', maxChangedFiles: 1 })],
+        changes: fromFiles(['apps/api/a.ts', 'apps/api/b.ts'])
+      })
+
+      expect(reports[0].result.directories).toEqual(expect.arrayContaining(['api', 'web']))
+      expect(reports[0].result.reasons.get('api')).toEqual({ reason: 'changed' })
+      expect(reports[0].result.reasons.get('web')).toEqual({ reason: 'threshold' })
+      expect(reports[0].result.thresholdsExceeded).toEqual(['2 changed files exceed max-changed-files (1)'])
+      expect(buildOutputs(reports, { configMode: false, listSeparator: ' ' })['full']).toBe(false)
+    })
+
+    it('should select nothing and set full with the full fallback', async () => {
+      const { reports } = await filterDirectories({
+        groups: [createGroupConfig({ targetParentPath: 'apps', maxDirectoriesPercent: 50, thresholdFallback: 'full' })],
+        changes: fromFiles(['apps/api/a.ts', 'apps/web/b.ts'])
+      })
+
+      const outputs = buildOutputs(reports, { configMode: false, listSeparator: ' ' })
+
+      expect(outputs['filtered-dir-path']).toEqual([])
+      expect(outputs['full']).toBe(true)
+      expect(outputs['thresholds-exceeded']).toEqual([
+        '100% of directories selected exceeds max-directories-percent (50%)'
+      ])
+    })
+
+    it('should keep the selection within the thresholds', async () => {
+      const { reports } = await filterDirectories({
+        groups: [createGroupConfig({ targetParentPath: 'apps', maxDirectories: 1, thresholdFallback: 'full' })],
+        changes: fromFiles(['apps/api/a.ts'])
+      })
+
+      const outputs = buildOutputs(reports, { configMode: false, listSeparator: ' ' })
+
+      expect(outputs['filtered-dir-path']).toEqual(['api'])
+      expect(outputs['full']).toBe(false)
+      expect(outputs['thresholds-exceeded']).toEqual([])
+    })
+
+    it('should ignore thresholds for a manual selection', async () => {
+      const { reports } = await filterDirectories({
+        groups: [createGroupConfig({ targetParentPath: 'apps', maxDirectories: 1, thresholdFallback: 'full' })],
+        changes: fromManualSelection('*')
+      })
+
+      expect(reports[0].result.directories).toHaveLength(2)
+      expect(reports[0].result.thresholdsExceeded).toEqual([])
+    })
+  })
+
+  describe('sort and batches', () => {
+    it('should sort by number of changed files, then by name', async () => {
+      const { reports } = await filterDirectories({
+        groups: [createGroupConfig({ targetParentPath: 'apps', sort: 'changed-files' })],
+        changes: fromFiles(['apps/api/a.ts', 'apps/web/a.ts', 'apps/web/b.ts'])
+      })
+
+      expect(reports[0].result.directories).toEqual(['web', 'api'])
+    })
+
+    it('should sort dependencies before their dependents', async () => {
+      fs.writeFileSync(path.join(repoPath, 'deps.json'), JSON.stringify({ 'apps/api': ['apps/web'] }))
+
+      const { reports } = await filterDirectories({
+        groups: [createGroupConfig({ targetParentPath: 'apps', sort: 'topological', dependencyMapFile: 'deps.json' })],
+        changes: fromManualSelection('api, web')
+      })
+
+      expect(reports[0].result.directories).toEqual(['web', 'api'])
+    })
+
+    it('should split the selection into batches', async () => {
+      const { reports } = await filterDirectories({
+        groups: [createGroupConfig({ targetParentPath: 'apps', sort: 'alphabetical', batchSize: 1 })],
+        changes: fromFiles(['apps/web/a.ts', 'apps/api/a.ts'])
+      })
+
+      const outputs = buildOutputs(reports, { configMode: false, listSeparator: ' ' })
+
+      expect(outputs['filtered-dir-path']).toEqual(['api', 'web'])
+      expect(outputs['batches']).toEqual([['api'], ['web']])
+    })
+  })
+
+  describe('buildOutputs', () => {
+    it('should return the action outputs as plain values', async () => {
+      const { reports } = await filterDirectories({
+        groups: [createGroupConfig({ targetParentPath: 'apps' })],
+        changes: fromFiles(['apps/web/page.tsx'])
+      })
+
+      const outputs = buildOutputs(reports, { configMode: false, listSeparator: ' ' })
+
+      expect(outputs['filtered-dir-path']).toEqual(['web'])
+      expect(outputs['has-changes']).toBe(true)
+      expect(outputs['count']).toBe(1)
+      expect(outputs['matrix']).toEqual({
+        include: [{ name: 'web', path: 'apps/web', 'changed-files': ['apps/web/page.tsx'] }]
+      })
+      expect(outputs['reasons']).toEqual({ web: { reason: 'changed' } })
+      expect(outputs['all-dirs']).toEqual(expect.arrayContaining(['api', 'web']))
+      expect(outputs['changed-web']).toBe(true)
+      expect(outputs['changed-api']).toBe(false)
+    })
+
+    it('should key per-group outputs by group name in config mode', async () => {
+      const { reports } = await filterDirectories({
+        groups: [
+          createGroupConfig({ name: 'apps', targetParentPath: 'apps' }),
+          createGroupConfig({ name: 'libs', targetParentPath: 'libs' })
+        ],
+        changes: fromFiles(['apps/api/index.ts'])
+      })
+
+      const outputs = buildOutputs(reports, { configMode: true, listSeparator: ',' })
+
+      expect(outputs['apps']).toEqual(['api'])
+      expect(outputs['groups']).toEqual({ apps: ['api'], libs: [] })
+      expect(outputs['filtered-dir-list']).toBe('api')
+      expect(outputs).not.toHaveProperty('filtered-dir-path')
+      expect(outputs['all-dirs']).toEqual({ apps: expect.arrayContaining(['api', 'web']), libs: ['core'] })
+      expect(outputs['changed-apps-api']).toBe(true)
+      expect(outputs['changed-libs-core']).toBe(false)
+    })
+  })
+})
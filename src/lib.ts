@@ -0,0 +1,61 @@
+import type { GroupConfig } from "./config";
+import type { ChangeProvider, Changes } from "./changes";
+import type { GroupReport } from "./report";
+import type { HashCache } from "./hash";
+import { checkManualEntries, selectGroupDirectories } from "./selection";
+
+export { createGroupConfig, loadConfigFile, parseConfig, type GroupConfig } from "./config";
+export {
+  fromFiles,
+  fromGitDiff,
+  fromGitHubEvent,
+  fromManualSelection,
+  type ChangeOptions,
+  type ChangeProvider,
+  type Changes,
+  type GitHubContext,
+  type PullRequestFile,
+} from "./changes";
+export { checkManualEntries, getContentHashes, selectGroupDirectories, type GroupResult, type SelectionReason } from "./selection";
+export { hashFiles, readHashCache, writeHashCache, type HashCache } from "./hash";
+export { buildOutputs, getBatches, getHashCacheEntries, type ActionOutputs, type MatrixEntry, type OutputOptions } from "./outputs";
+export { renderReport, type GroupReport } from "./report";
+export {
+  findOwners,
+  getAllOwners,
+  getDirectoryOwners,
+  loadCodeowners,
+  parseCodeowners,
+  type CodeownersRule,
+} from "./codeowners";
+export { getDirectoryLabels, renderLabel, syncPullRequestLabels, type DirectoryLabels } from "./labels";
+export { setLogger, type Logger } from "./log";
+export type { DependencySource } from "./dependencies";
+
+export interface FilterOptions {
+  groups: GroupConfig[];
+  changes: Changes | ChangeProvider;
+  // Hashes from a previous run, for groups with content-hash
+  hashCache?: HashCache;
+}
+
+export interface FilterResult {
+  changes: Changes;
+  reports: GroupReport[];
+}
+
+/**
+ * Selects the directories of each group for the given changes. Paths in the
+ * groups are resolved against the current working directory, which should be
+ * the repository root.
+ */
+export async function filterDirectories(options: FilterOptions): Promise<FilterResult> {
+  const changes: Changes = typeof options.changes === "function" ? await options.changes() : options.changes;
+  const reports: GroupReport[] = options.groups.map((group: GroupConfig) => ({
+    group,
+    result: selectGroupDirectories(group, changes, options.hashCache),
+  }));
+  checkManualEntries(reports, changes);
+
+  return { changes, reports };
+}
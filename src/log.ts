@@ -0,0 +1,24 @@
+import * as core from "@actions/core";
+
+export interface Logger {
+  debug(message: string): void;
+  info(message: string): void;
+  warning(message: string): void;
+}
+
+let current: Logger = core;
+
+/**
+ * Replaces where progress messages go. Inside Actions they are workflow
+ * commands from @actions/core; the CLI sends them to stderr so that stdout
+ * only carries the JSON result.
+ */
+export function setLogger(logger: Logger): void {
+  current = logger;
+}
+
+export const log: Logger = {
+  debug: (message: string) => current.debug(message),
+  info: (message: string) => current.info(message),
+  warning: (message: string) => current.warning(message),
+};
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compilePattern,
+  compilePatterns,
+  filterPaths,
+  matchesPatterns,
+  parsePatternList
+} from './matcher'
+
+function matches(file: string, ...patterns: string[]): boolean {
+  return matchesPatterns(file, compilePatterns(patterns))
+}
+
+describe('matcher', () => {
+  describe('compilePattern', () => {
+    it('should ignore blank lines and comments', () => {
+      expect(compilePattern('')).toBeNull()
+      expect(compilePattern('   ')).toBeNull()
+      expect(compilePattern('# comment')).toBeNull()
+    })
+
+    it('should detect negation and directory-only patterns', () => {
+      expect(compilePattern('!docs/')).toMatchObject({
+        source: '!docs/',
+        negated: true,
+        directoryOnly: true
+      })
+    })
+
+    it('should treat escaped leading characters literally', () => {
+      expect(matches('!important.txt', '\\!important.txt')).toBe(true)
+      expect(matches('#notes.md', '\\#notes.md')).toBe(true)
+    })
+  })
+
+  describe('matchesPatterns', () => {
+    it('should match basename patterns at any depth', () => {
+      expect(matches('README.md', 'README.md')).toBe(true)
+      expect(matches('apps/api/README.md', 'README.md')).toBe(true)
+      expect(matches('apps/api/README.md.bak', 'README.md')).toBe(false)
+    })
+
+    it('should match single-star wildcards within a path segment', () => {
+      expect(matches('apps/api/src/user.test.ts', '*.test.ts')).toBe(true)
+      expect(matches('apps/api/src/user.ts', '*.test.ts')).toBe(false)
+      expect(matches('apps/api/index.ts', 'apps/*/index.ts')).toBe(true)
+      expect(matches('apps/api/src/index.ts', 'apps/*/index.ts')).toBe(false)
+    })
+
+    it('should anchor patterns containing a slash to the repository root', () => {
+      expect(matches('apps/api/index.ts', 'apps/api')).toBe(true)
+      expect(matches('libs/apps/api/index.ts', 'apps/api')).toBe(false)
+      expect(matches('docs/guide.md', '/docs')).toBe(true)
+      expect(matches('apps/docs/guide.md', '/docs')).toBe(false)
+    })
+
+    it('should match everything inside a matched directory', () => {
+      expect(matches('apps/api/docs/guide/intro.md', 'docs')).toBe(true)
+    })
+
+    it('should only match directories for trailing-slash patterns', () => {
+      expect(matches('apps/build/output.js', 'build/')).toBe(true)
+      expect(matches('apps/build', 'build/')).toBe(false)
+    })
+
+    it('should match trailing-slash patterns against directory paths', () => {
+      expect(matchesPatterns('apps/build', compilePatterns(['build/']), true)).toBe(true)
+    })
+
+    it('should support double-star patterns', () => {
+      expect(matches('apps/api/src/deep/file.md', 'apps/**/*.md')).toBe(true)
+      expect(matches('apps/file.md', 'apps/**/*.md')).toBe(true)
+      expect(matches('a/b/c/fixtures/data.json', '**/fixtures/**')).toBe(true)
+      expect(matches('fixtures/data.json', '**/fixtures/**')).toBe(true)
+      expect(matches('apps/api/x.ts', 'apps/**')).toBe(true)
+      expect(matches('libs/api/x.ts', 'apps/**')).toBe(false)
+    })
+
+    it('should support question marks and character classes', () => {
+      expect(matches('logs/app1.log', 'logs/app?.log')).toBe(true)
+      expect(matches('logs/app10.log', 'logs/app?.log')).toBe(false)
+      expect(matches('logs/app1.log', 'logs/app[0-9].log')).toBe(true)
+      expect(matches('logs/appx.log', 'logs/app[!0-9].log')).toBe(true)
+      expect(matches('logs/app1.log', 'logs/app[!0-9].log')).toBe(false)
+    })
+
+    it('should escape regular expression characters', () => {
+      expect(matches('apps/a+b/(x).ts', 'apps/a+b/(x).ts')).toBe(true)
+      expect(matches('apps/aab/x.ts', 'apps/a+b/x.ts')).toBe(false)
+    })
+
+    it('should let the last matching pattern win', () => {
+      expect(matches('docs/CHANGELOG.md', '*.md', '!CHANGELOG.md')).toBe(false)
+      expect(matches('docs/CHANGELOG.md', '!CHANGELOG.md', '*.md')).toBe(true)
+      expect(matches('docs/guide.md', '*.md', '!CHANGELOG.md')).toBe(true)
+    })
+
+    it('should not match anything with an empty pattern list', () => {
+      expect(matches('apps/api/index.ts')).toBe(false)
+    })
+  })
+
+  describe('parsePatternList', () => {
+    it('should split newline-separated patterns and drop comments', () => {
+      const input = '  apps/**\n\n# docs are not deployed\r\n!**/*.md\n'
+
+      expect(parsePatternList(input)).toEqual(['apps/**', '!**/*.md'])
+    })
+
+    it('should handle empty input', () => {
+      expect(parsePatternList('')).toEqual([])
+    })
+  })
+
+  describe('filterPaths', () => {
+    const files = [
+      'apps/api/src/index.ts',
+      'apps/api/src/index.test.ts',
+      'apps/api/README.md',
+      'apps/web/CHANGELOG.md',
+      'docs/guide.md'
+    ]
+
+    it('should return every file without patterns', () => {
+      expect(filterPaths(files, [], [])).toEqual(files)
+    })
+
+    it('should keep only included files', () => {
+      expect(filterPaths(files, ['apps/**', '!*.md'], [])).toEqual([
+        'apps/api/src/index.ts',
+        'apps/api/src/index.test.ts'
+      ])
+    })
+
+    it('should drop excluded files unless re-included', () => {
+      expect(filterPaths(files, [], ['*.md', '*.test.ts', '!CHANGELOG.md'])).toEqual([
+        'apps/api/src/index.ts',
+        'apps/web/CHANGELOG.md'
+      ])
+    })
+
+    it('should apply exclusions after inclusions', () => {
+      expect(filterPaths(files, ['apps/api/'], ['*.test.ts'])).toEqual([
+        'apps/api/src/index.ts',
+        'apps/api/README.md'
+      ])
+    })
+
+    it('should optionally ignore case', () => {
+      expect(filterPaths(files, [], ['readme.md'])).toEqual(files)
+      expect(filterPaths(files, ['APPS/API/'], ['readme.md'], true)).toEqual([
+        'apps/api/src/index.ts',
+        'apps/api/src/index.test.ts'
+      ])
+    })
+  })
+})
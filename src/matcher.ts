@@ -0,0 +1,167 @@
+export interface PathPattern {
+  source: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  regex: RegExp;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+function segmentToRegExp(segment: string): string {
+  let result: string = "";
+
+  for (let i = 0; i < segment.length; i++) {
+    const char: string = segment[i];
+
+    if (char === "\\" && i + 1 < segment.length) {
+      result += escapeRegExp(segment[++i]);
+    } else if (char === "*") {
+      result += "[^/]*";
+    } else if (char === "?") {
+      result += "[^/]";
+    } else if (char === "[") {
+      const end: number = segment.indexOf("]", i + 2);
+      if (end === -1) {
+        result += "\\[";
+        continue;
+      }
+
+      let body: string = segment.slice(i + 1, end);
+      if (body.startsWith("!")) {
+        body = "^" + body.slice(1);
+      }
+      result += `[${body}]`;
+      i = end;
+    } else {
+      result += escapeRegExp(char);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compiles a single gitignore-style pattern. Returns null for blank lines and
+ * comments.
+ */
+export function compilePattern(pattern: string, ignoreCase: boolean = false): PathPattern | null {
+  let body: string = pattern.trim();
+
+  if (!body || body.startsWith("#")) {
+    return null;
+  }
+
+  const negated: boolean = body.startsWith("!");
+  if (negated) {
+    body = body.slice(1);
+  } else if (body.startsWith("\\!") || body.startsWith("\\#")) {
+    body = body.slice(1);
+  }
+
+  const directoryOnly: boolean = body.endsWith("/");
+  body = body.replace(/\/+$/, "");
+
+  const anchored: boolean = body.includes("/");
+  body = body.replace(/^\/+/, "");
+
+  if (!body) {
+    return null;
+  }
+
+  const segments: string[] = body.split("/");
+  let source: string = anchored ? "" : "(?:.*/)?";
+  let needsSeparator: boolean = false;
+
+  segments.forEach((segment: string, index: number) => {
+    const isLast: boolean = index === segments.length - 1;
+
+    if (segment === "**") {
+      source += isLast
+        ? (needsSeparator ? "/.*" : ".*")
+        : (needsSeparator ? "/(?:.*/)?" : "(?:.*/)?");
+      needsSeparator = false;
+      return;
+    }
+
+    source += (needsSeparator ? "/" : "") + segmentToRegExp(segment);
+    needsSeparator = true;
+  });
+
+  return {
+    source: pattern.trim(),
+    negated,
+    directoryOnly,
+    regex: new RegExp(`^${source}$`, ignoreCase ? "i" : ""),
+  };
+}
+
+export function compilePatterns(patterns: string[], ignoreCase: boolean = false): PathPattern[] {
+  return patterns
+    .map((pattern: string) => compilePattern(pattern, ignoreCase))
+    .filter((pattern): pattern is PathPattern => pattern !== null);
+}
+
+/**
+ * Parses a newline-separated pattern list, dropping blank lines and comments.
+ */
+export function parsePatternList(input: string): string[] {
+  return input
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith("#"));
+}
+
+/**
+ * Returns whether the pattern matches the path or one of its parent
+ * directories, ignoring negation.
+ */
+export function patternMatches(pattern: PathPattern, file: string, isDirectory: boolean = false): boolean {
+  const segments: string[] = file.split("/");
+  const lastCandidate: number = pattern.directoryOnly && !isDirectory ? segments.length - 1 : segments.length;
+
+  for (let length = 1; length <= lastCandidate; length++) {
+    if (pattern.regex.test(segments.slice(0, length).join("/"))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Returns whether the path is matched by the pattern list. As in .gitignore,
+ * the last matching pattern wins and a negated pattern un-matches the path.
+ * Pass `isDirectory` when the path itself is a directory so that trailing
+ * slash patterns can match it.
+ */
+export function matchesPatterns(file: string, patterns: PathPattern[], isDirectory: boolean = false): boolean {
+  let matched: boolean = false;
+
+  for (const pattern of patterns) {
+    if (patternMatches(pattern, file, isDirectory)) {
+      matched = !pattern.negated;
+    }
+  }
+
+  return matched;
+}
+
+export function filterPaths(
+  files: string[],
+  includePatterns: string[],
+  excludePatterns: string[],
+  ignoreCase: boolean = false
+): string[] {
+  const include: PathPattern[] = compilePatterns(includePatterns, ignoreCase);
+  const exclude: PathPattern[] = compilePatterns(excludePatterns, ignoreCase);
+
+  return files.filter((file: string) => {
+    if (include.length > 0 && !matchesPatterns(file, include)) {
+      return false;
+    }
+
+    return !matchesPatterns(file, exclude);
+  });
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as core from '@actions/core'
+import { getBatches, getDirectoryFlags, parseListSeparator, toOutputName } from './outputs'
+import { createGroupConfig } from './config'
+import type { GroupReport } from './report'
+import type { GroupResult } from './selection'
+
+vi.mock('@actions/core')
+
+function createReport(name: string, result: Partial<GroupResult>): GroupReport {
+  return {
+    group: createGroupConfig({ name, targetParentPath: name }),
+    result: {
+      directories: [],
+      reasons: new Map(),
+      globalTriggers: [],
+      changedFiles: new Map(),
+      fileChanges: new Map(),
+      deletedDirectories: [],
+      subdirectories: [],
+      hashes: new Map(),
+      thresholdsExceeded: [],
+      ...result
+    }
+  }
+}
+
+describe('outputs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('parseListSeparator', () => {
+    it('should map named separators', () => {
+      expect(parseListSeparator('')).toBe(' ')
+      expect(parseListSeparator('space')).toBe(' ')
+      expect(parseListSeparator('newline')).toBe('\n')
+      expect(parseListSeparator('comma')).toBe(',')
+    })
+
+    it('should use any other value literally', () => {
+      expect(parseListSeparator(';')).toBe(';')
+    })
+  })
+
+  describe('toOutputName', () => {
+    it('should replace characters that are not allowed in output names', () => {
+      expect(toOutputName('api')).toBe('api')
+      expect(toOutputName('team/web.app')).toBe('team-web-app')
+      expect(toOutputName('my_service-2')).toBe('my_service-2')
+    })
+  })
+
+  describe('getDirectoryFlags', () => {
+    it('should flag every discovered directory', () => {
+      const reports = [createReport('apps', { subdirectories: ['api', 'web'], directories: ['web'] })]
+
+      expect(getDirectoryFlags(reports, false)).toEqual({ 'changed-api': false, 'changed-web': true })
+      expect(getDirectoryFlags(reports, true)).toEqual({ 'changed-apps-api': false, 'changed-apps-web': true })
+    })
+
+    it('should warn when directories map to the same output', () => {
+      const reports = [createReport('apps', { subdirectories: ['web.app', 'web-app'], directories: ['web-app'] })]
+
+      expect(getDirectoryFlags(reports, false)).toEqual({ 'changed-web-app': true })
+      expect(core.warning).toHaveBeenCalledWith('Directories web.app and web-app both map to the output changed-web-app')
+    })
+  })
+
+  describe('getBatches', () => {
+    it('should split directories into batches of at most the batch size', () => {
+      expect(getBatches(['a', 'b', 'c'], 2)).toEqual([['a', 'b'], ['c']])
+    })
+
+    it('should put everything in one batch without a batch size', () => {
+      expect(getBatches(['a', 'b', 'c'], 0)).toEqual([['a', 'b', 'c']])
+      expect(getBatches([], 0)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,209 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+import { toRepoPath } from "./paths";
+import { getAllOwners } from "./codeowners";
+import { getDirectoryLabels } from "./labels";
+import { log } from "./log";
+import { getParentRepoPath, type GroupResult } from "./selection";
+import type { PullRequestFile } from "./changes";
+import type { GroupConfig } from "./config";
+import type { HashCache } from "./hash";
+import type { GroupReport } from "./report";
+
+export interface MatrixEntry {
+  name: string;
+  path: string;
+  "changed-files": string[];
+  group?: string;
+  // Path of the file listing the changed files, with changed-files-dir
+  "changed-files-list"?: string;
+}
+
+export function buildMatrixEntries(group: GroupConfig, result: GroupResult, includeGroup: boolean): MatrixEntry[] {
+  return result.directories.map((dir: string) => ({
+    name: dir,
+    path: toRepoPath(getParentRepoPath(group), dir),
+    "changed-files": result.changedFiles.get(dir) ?? [],
+    ...(includeGroup ? { group: group.name } : {}),
+  }));
+}
+
+export function getChangesByDirectory(result: GroupResult): Record<string, PullRequestFile[]> {
+  return Object.fromEntries(result.directories.map((dir: string) => [dir, result.fileChanges.get(dir) ?? []]));
+}
+
+/**
+ * Writes one file per matrix entry listing its changed files, one per line,
+ * under outputDir at the directory's repository path with a .txt extension,
+ * and records the file in the entry. Also writes the changes-by-dir output
+ * as changes-by-dir.json, for changes too large for step outputs.
+ */
+export function writeChangedFileLists(
+  entries: MatrixEntry[],
+  changesByDir: unknown,
+  outputDir: string
+): void {
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(path.join(outputDir, "changes-by-dir.json"), JSON.stringify(changesByDir, null, 2));
+
+  for (const entry of entries) {
+    const listFile: string = path.join(outputDir, `${entry.path}.txt`);
+    const contents: string = entry["changed-files"].map((file: string) => `${file}\n`).join("");
+
+    fs.mkdirSync(path.dirname(listFile), { recursive: true });
+    fs.writeFileSync(listFile, contents);
+    entry["changed-files-list"] = listFile;
+  }
+
+  log.info(`Wrote changed file lists for ${entries.length} directories to ${outputDir}`);
+}
+
+export function parseListSeparator(input: string): string {
+  switch (input) {
+    case "":
+    case "space":
+      return " ";
+    case "newline":
+      return "\n";
+    case "comma":
+      return ",";
+    default:
+      return input;
+  }
+}
+
+/**
+ * Turns a directory name into a valid output name segment, replacing runs of
+ * characters other than letters, digits, "-" and "_" with "-".
+ */
+export function toOutputName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]+/g, "-");
+}
+
+/**
+ * Returns a `changed-<dir>` output for every discovered directory, named
+ * `changed-<group>-<dir>` in config mode, that is true when it was selected.
+ */
+export function getDirectoryFlags(reports: GroupReport[], configMode: boolean): ActionOutputs {
+  const flags: ActionOutputs = {};
+  const owners: Map<string, string> = new Map();
+
+  for (const { group, result } of reports) {
+    for (const dir of result.subdirectories) {
+      const label: string = configMode ? `${group.name}/${dir}` : dir;
+      const name: string = `changed-${toOutputName(label)}`;
+      const selected: boolean = result.directories.includes(dir);
+
+      const previous: string | undefined = owners.get(name);
+      if (previous !== undefined) {
+        log.warning(`Directories ${previous} and ${label} both map to the output ${name}`);
+      }
+      owners.set(name, label);
+      flags[name] = flags[name] === true || selected;
+    }
+  }
+
+  return flags;
+}
+
+export function getSelectionOutputs(entries: MatrixEntry[], listSeparator: string): ActionOutputs {
+  return {
+    matrix: { include: entries },
+    "has-changes": entries.length > 0,
+    count: entries.length,
+    "filtered-dir-list": entries.map((entry: MatrixEntry) => entry.name).join(listSeparator),
+    "filtered-paths": entries.map((entry: MatrixEntry) => entry.path),
+  };
+}
+
+export interface OutputOptions {
+  // Groups came from a config file, so per-group outputs are keyed by name
+  configMode: boolean;
+  listSeparator: string;
+  changedFilesDir?: string;
+}
+
+// Output names mapped to their values; objects are JSON encoded when set
+export type ActionOutputs = Record<string, unknown>;
+
+/**
+ * Returns every output of the action for the selection results. The action
+ * sets them as step outputs and the CLI prints them as one JSON object.
+ */
+export function buildOutputs(reports: GroupReport[], options: OutputOptions): ActionOutputs {
+  const byGroup = (select: (result: GroupResult, report: GroupReport) => unknown): unknown => options.configMode
+    ? Object.fromEntries(reports.map((report: GroupReport) => [report.group.name, select(report.result, report)]))
+    : select(reports[0].result, reports[0]);
+  const outputs: ActionOutputs = {};
+
+  if (options.configMode) {
+    for (const { group, result } of reports) {
+      outputs[group.name] = result.directories;
+    }
+    outputs["groups"] = byGroup((result: GroupResult) => result.directories);
+  } else {
+    outputs["filtered-dir-path"] = reports[0].result.directories;
+  }
+
+  outputs["reasons"] = byGroup((result: GroupResult) => Object.fromEntries(result.reasons));
+  outputs["global-trigger-files"] = byGroup((result: GroupResult) => result.globalTriggers);
+  outputs["deleted-dirs"] = byGroup((result: GroupResult) => result.deletedDirectories);
+  outputs["changes-by-dir"] = byGroup(getChangesByDirectory);
+  outputs["hashes"] = byGroup((result: GroupResult) => Object.fromEntries(result.hashes));
+  outputs["owners"] = byGroup((_result: GroupResult, report: GroupReport) => Object.fromEntries(report.owners ?? []));
+  outputs["all-owners"] = getAllOwners(reports);
+  outputs["labels"] = getDirectoryLabels(reports).labels;
+  outputs["all-dirs"] = byGroup((result: GroupResult) => result.subdirectories);
+  outputs["full"] = reports.some(({ group, result }: GroupReport) =>
+    group.thresholdFallback === "full" && result.thresholdsExceeded.length > 0
+  );
+  outputs["thresholds-exceeded"] = byGroup((result: GroupResult) => result.thresholdsExceeded);
+  outputs["batches"] = byGroup((result: GroupResult, report: GroupReport) =>
+    getBatches(result.directories, report.group.batchSize)
+  );
+
+  const matrixEntries: MatrixEntry[] = reports.flatMap(({ group, result }: GroupReport) =>
+    buildMatrixEntries(group, result, options.configMode)
+  );
+  if (options.changedFilesDir) {
+    writeChangedFileLists(matrixEntries, outputs["changes-by-dir"], options.changedFilesDir);
+  }
+
+  return {
+    ...outputs,
+    ...getSelectionOutputs(matrixEntries, options.listSeparator),
+    ...getDirectoryFlags(reports, options.configMode),
+  };
+}
+
+/**
+ * Splits the directories into batches of at most batchSize, keeping their
+ * order. A batch size of 0 puts every directory into one batch.
+ */
+export function getBatches(directories: string[], batchSize: number): string[][] {
+  const size: number = batchSize > 0 ? batchSize : directories.length;
+  const batches: string[][] = [];
+
+  for (let start = 0; start < directories.length; start += size) {
+    batches.push(directories.slice(start, start + size));
+  }
+
+  return batches;
+}
+
+/**
+ * Returns the content hashes of every group keyed by repository path, as
+ * stored in the hash cache file.
+ */
+export function getHashCacheEntries(reports: GroupReport[]): HashCache {
+  return Object.fromEntries(reports.flatMap(({ group, result }: GroupReport) =>
+    [...result.hashes].map(([dir, hash]: [string, string]) => [toRepoPath(getParentRepoPath(group), dir), hash])
+  ));
+}
+
+export function setActionOutputs(outputs: ActionOutputs): void {
+  for (const [name, value] of Object.entries(outputs)) {
+    core.setOutput(name, typeof value === "object" ? JSON.stringify(value) : value);
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isAbsolutePath,
+  isPathInside,
+  normalizeRepoPath,
+  toRepoPath,
+  toRepoRelativePath
+} from './paths'
+
+describe('paths', () => {
+  describe('normalizeRepoPath', () => {
+    it('should canonicalize equivalent spellings of a directory', () => {
+      expect(normalizeRepoPath('apps')).toBe('apps')
+      expect(normalizeRepoPath('./apps/')).toBe('apps')
+      expect(normalizeRepoPath('apps//web/')).toBe('apps/web')
+      expect(normalizeRepoPath(' apps\\web ')).toBe('apps/web')
+      expect(normalizeRepoPath('apps/./web/../api')).toBe('apps/api')
+    })
+
+    it('should keep hidden directories and leading parent segments', () => {
+      expect(normalizeRepoPath('.github/workflows')).toBe('.github/workflows')
+      expect(normalizeRepoPath('../shared')).toBe('../shared')
+    })
+
+    it('should map the repository root to an empty path', () => {
+      expect(normalizeRepoPath('.')).toBe('')
+      expect(normalizeRepoPath('./')).toBe('')
+      expect(normalizeRepoPath('')).toBe('')
+    })
+
+    it('should keep absolute POSIX and Windows roots', () => {
+      expect(normalizeRepoPath('/home/runner//work/')).toBe('/home/runner/work')
+      expect(normalizeRepoPath('D:\\a\\repo\\apps\\')).toBe('D:/a/repo/apps')
+    })
+  })
+
+  describe('toRepoPath', () => {
+    it('should join and normalize into repository-relative POSIX paths', () => {
+      expect(toRepoPath('.', 'api')).toBe('api')
+      expect(toRepoPath('./apps/', 'web')).toBe('apps/web')
+      expect(toRepoPath('apps\\web', '../../libs/core/')).toBe('libs/core')
+      expect(toRepoPath('.github')).toBe('.github')
+      expect(toRepoPath('.')).toBe('')
+      expect(toRepoPath('', 'api')).toBe('api')
+    })
+  })
+
+  describe('isAbsolutePath', () => {
+    it('should recognize POSIX and Windows absolute paths', () => {
+      expect(isAbsolutePath('/workspace/apps')).toBe(true)
+      expect(isAbsolutePath('C:\\repo\\apps')).toBe(true)
+      expect(isAbsolutePath('apps')).toBe(false)
+    })
+  })
+
+  describe('isPathInside', () => {
+    it('should match the directory itself and files below it', () => {
+      expect(isPathInside('apps/web', 'apps/web')).toBe(true)
+      expect(isPathInside('apps/web/index.ts', 'apps/web')).toBe(true)
+      expect(isPathInside('apps/web-admin/index.ts', 'apps/web')).toBe(false)
+      expect(isPathInside('anything.ts', '')).toBe(true)
+    })
+
+    it('should optionally ignore case', () => {
+      expect(isPathInside('Apps/Web/index.ts', 'apps/web')).toBe(false)
+      expect(isPathInside('Apps/Web/index.ts', 'apps/web', true)).toBe(true)
+    })
+  })
+
+  describe('toRepoRelativePath', () => {
+    it('should normalize relative paths', () => {
+      expect(toRepoRelativePath('./apps//', '/workspace')).toBe('apps')
+    })
+
+    it('should strip the repository root from absolute paths', () => {
+      expect(toRepoRelativePath('/workspace/apps/', '/workspace')).toBe('apps')
+      expect(toRepoRelativePath('/workspace', '/workspace')).toBe('')
+      expect(toRepoRelativePath('d:\\a\\repo\\apps', 'D:\\a\\repo')).toBe('apps')
+    })
+
+    it('should leave absolute paths outside the repository unchanged', () => {
+      expect(toRepoRelativePath('/other/apps', '/workspace')).toBe('/other/apps')
+    })
+  })
+})
@@ -0,0 +1,71 @@
+const ABSOLUTE_PATH: RegExp = /^(?:[A-Za-z]:)?\//;
+
+export function toPosixPath(input: string): string {
+  return input.replace(/\\/g, "/");
+}
+
+export function isAbsolutePath(input: string): boolean {
+  return ABSOLUTE_PATH.test(toPosixPath(input));
+}
+
+/**
+ * Normalizes a path to POSIX form, resolving "." and ".." segments and
+ * dropping duplicate and trailing slashes. The repository root is "". This
+ * does not use the "path" module so results are the same on every platform.
+ */
+export function normalizeRepoPath(input: string): string {
+  const posixPath: string = toPosixPath(input.trim());
+  const root: string = posixPath.match(ABSOLUTE_PATH)?.[0] ?? "";
+  const segments: string[] = [];
+
+  for (const segment of posixPath.slice(root.length).split("/")) {
+    if (!segment || segment === ".") {
+      continue;
+    }
+
+    if (segment === ".." && segments.length > 0 && segments[segments.length - 1] !== "..") {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return root + segments.join("/");
+}
+
+export function toRepoPath(...segments: string[]): string {
+  return normalizeRepoPath(segments.filter(segment => segment.length > 0).join("/"));
+}
+
+export function pathsEqual(a: string, b: string, ignoreCase: boolean = false): boolean {
+  return ignoreCase ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+/**
+ * Returns whether the normalized path is the directory itself or inside it.
+ * Every path is inside the repository root "".
+ */
+export function isPathInside(file: string, dir: string, ignoreCase: boolean = false): boolean {
+  if (!dir) {
+    return true;
+  }
+
+  return pathsEqual(file, dir, ignoreCase) || pathsEqual(file.slice(0, dir.length + 1), dir + "/", ignoreCase);
+}
+
+/**
+ * Converts a path given relative to the repository root, or as an absolute
+ * path inside it, to its normalized repository-relative form.
+ */
+export function toRepoRelativePath(input: string, repoRoot: string): string {
+  const normalized: string = normalizeRepoPath(input);
+  if (!isAbsolutePath(normalized)) {
+    return normalized;
+  }
+
+  const root: string = normalizeRepoPath(repoRoot);
+  // Windows drive paths are case-insensitive
+  const ignoreCase: boolean = /^[A-Za-z]:/.test(root);
+
+  return isPathInside(normalized, root, ignoreCase) ? normalized.slice(root.length + 1) : normalized;
+}
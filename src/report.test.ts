@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { describeReason, renderReport, COMMENT_MARKER, type GroupReport } from './report'
+import { parseGroupConfig } from './config'
+import type { GroupResult } from './index'
+
+function createReport(name: string, result: Partial<GroupResult>): GroupReport {
+  return {
+    group: parseGroupConfig(name, { 'target-parent-path': name }),
+    result: {
+      directories: [],
+      reasons: new Map(),
+      globalTriggers: [],
+      changedFiles: new Map(),
+      fileChanges: new Map(),
+      deletedDirectories: [],
+      subdirectories: [],
+      hashes: new Map(),
+      thresholdsExceeded: [],
+      ...result
+    }
+  }
+}
+
+describe('report', () => {
+  describe('describeReason', () => {
+    it('should describe each selection reason', () => {
+      expect(describeReason({ reason: 'changed' })).toBe('Direct change')
+      expect(describeReason({ reason: 'dependency', via: ['packages/core'] })).toBe('Dependency changed: `packages/core`')
+      expect(describeReason({ reason: 'global', via: ['package-lock.json'] })).toBe('Global trigger: `package-lock.json`')
+      expect(describeReason({ reason: 'manual' })).toBe('Manual selection')
+      expect(describeReason({ reason: 'all' })).toBe('No base commit to compare against')
+      expect(describeReason({ reason: 'fallback' })).toBe('Changed files could not be determined')
+      expect(describeReason({ reason: 'threshold' })).toBe('Change threshold exceeded')
+      expect(describeReason(undefined)).toBe('')
+    })
+  })
+
+  describe('renderReport', () => {
+    it('should render a row for every directory', () => {
+      const markdown = renderReport([
+        createReport('apps', {
+          directories: ['api', 'web'],
+          reasons: new Map([
+            ['api', { reason: 'changed' }],
+            ['web', { reason: 'dependency', via: ['packages/ui'] }]
+          ]),
+          changedFiles: new Map([['api', ['apps/api/index.ts', 'apps/api/util.ts']]]),
+          subdirectories: ['api', 'docs', 'web']
+        })
+      ], false)
+
+      expect(markdown.startsWith(COMMENT_MARKER)).toBe(true)
+      expect(markdown).toContain('2 of 3 directories selected.')
+      expect(markdown).toContain('| `api` | ✅ | Direct change | `apps/api/index.ts`<br>`apps/api/util.ts` |')
+      expect(markdown).toContain('| `docs` | — |  |  |')
+      expect(markdown).toContain('| `web` | ✅ | Dependency changed: `packages/ui` |  |')
+      expect(markdown).not.toContain('###')
+    })
+
+    it('should add a heading per group and list deleted directories', () => {
+      const markdown = renderReport([
+        createReport('apps', { subdirectories: ['api'] }),
+        createReport('services', { deletedDirectories: ['legacy'] })
+      ], true)
+
+      expect(markdown).toContain('### apps (`apps`)')
+      expect(markdown).toContain('### services (`services`)')
+      expect(markdown).toContain('Deleted directories: `legacy`')
+    })
+
+    it('should note crossed thresholds', () => {
+      const markdown = renderReport([
+        createReport('apps', { thresholdsExceeded: ['3 selected directories exceed max-directories (2)'] })
+      ], false)
+
+      expect(markdown).toContain('Full run: 3 selected directories exceed max-directories (2)')
+    })
+
+    it('should escape table cells and truncate long file lists', () => {
+      const files = Array.from({ length: 12 }, (_, index) => `apps/a|b/file${index}.ts`)
+      const markdown = renderReport([
+        createReport('apps', {
+          directories: ['a|b'],
+          reasons: new Map([['a|b', { reason: 'changed' }]]),
+          changedFiles: new Map([['a|b', files]]),
+          subdirectories: ['a|b']
+        })
+      ], false)
+
+      expect(markdown).toContain('| `a\\|b` |')
+      expect(markdown).toContain('`apps/a\\|b/file9.ts`<br>… and 2 more |')
+      expect(markdown).not.toContain('file10.ts')
+    })
+  })
+})
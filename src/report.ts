@@ -0,0 +1,154 @@
+import * as core from "@actions/core";
+import * as github from "@actions/github";
+import { requestWithRetry, type RequestOptions } from "./api";
+import { log } from "./log";
+import type { GroupConfig } from "./config";
+import type { GitHubContext } from "./changes";
+import type { GroupResult, SelectionReason } from "./selection";
+
+export const COMMENT_MARKER = "<!-- filter-dir-action -->";
+const MAX_FILES_PER_ROW = 10;
+
+export interface GroupReport {
+  group: GroupConfig;
+  result: GroupResult;
+  // Owners of each selected directory from CODEOWNERS, when enabled
+  owners?: Map<string, string[]>;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function code(value: string): string {
+  return `\`${escapeCell(value)}\``;
+}
+
+export function describeReason(selection: SelectionReason | undefined): string {
+  switch (selection?.reason) {
+    case "changed":
+      return "Direct change";
+    case "dependency":
+      return `Dependency changed: ${(selection.via ?? []).map(code).join(", ")}`;
+    case "global":
+      return `Global trigger: ${(selection.via ?? []).map(code).join(", ")}`;
+    case "manual":
+      return "Manual selection";
+    case "all":
+      return "No base commit to compare against";
+    case "fallback":
+      return "Changed files could not be determined";
+    case "threshold":
+      return "Change threshold exceeded";
+    default:
+      return "";
+  }
+}
+
+function describeFiles(files: string[]): string {
+  const shown: string = files.slice(0, MAX_FILES_PER_ROW).map(code).join("<br>");
+  const hidden: number = files.length - MAX_FILES_PER_ROW;
+
+  return hidden > 0 ? `${shown}<br>… and ${hidden} more` : shown;
+}
+
+export function renderGroupTable({ result }: GroupReport): string {
+  const lines: string[] = [
+    `${result.directories.length} of ${result.subdirectories.length} directories selected.`,
+    "",
+    "| Directory | Selected | Reason | Changed files |",
+    "| --- | --- | --- | --- |",
+  ];
+
+  for (const dir of result.subdirectories) {
+    const selected: boolean = result.reasons.has(dir);
+    lines.push(
+      `| ${code(dir)} | ${selected ? "✅" : "—"} | ${describeReason(result.reasons.get(dir))} | ${describeFiles(result.changedFiles.get(dir) ?? [])} |`
+    );
+  }
+
+  if (result.thresholdsExceeded.length > 0) {
+    lines.push("", `Full run: ${result.thresholdsExceeded.join("; ")}`);
+  }
+
+  if (result.deletedDirectories.length > 0) {
+    lines.push("", `Deleted directories: ${result.deletedDirectories.map(code).join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Renders the filter result as markdown. Group headings are only added when
+ * the result comes from a config file with named groups.
+ */
+export function renderReport(reports: GroupReport[], showGroups: boolean): string {
+  const sections: string[] = [COMMENT_MARKER, "## Filtered directories"];
+
+  for (const report of reports) {
+    if (showGroups) {
+      sections.push(`### ${report.group.name} (${code(report.group.targetParentPath)})`);
+    }
+    sections.push(renderGroupTable(report));
+  }
+
+  return sections.join("\n\n") + "\n";
+}
+
+export async function writeJobSummary(markdown: string): Promise<void> {
+  try {
+    core.summary.addRaw(markdown);
+    await core.summary.write();
+  } catch (error: unknown) {
+    const errorMessage: string = error instanceof Error ? error.message : String(error);
+    log.warning(`Failed to write job summary: ${errorMessage}`);
+  }
+}
+
+/**
+ * Creates the report comment on the pull request, or updates the comment left
+ * by a previous run so that only one comment is kept.
+ */
+export async function upsertPullRequestComment(token: string, context: GitHubContext, body: string): Promise<void> {
+  if (!context.payload.pull_request) {
+    log.info("Not a pull request; skipping the report comment");
+    return;
+  }
+
+  const octokit = github.getOctokit(token);
+  const issue = {
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    issue_number: context.payload.pull_request.number,
+  };
+
+  const requestOptions: RequestOptions = { action: "update the report comment", permission: "pull-requests: write" };
+
+  let existingId: number | undefined;
+  for (let page = 1; existingId === undefined; page++) {
+    const { data: comments } = await requestWithRetry(
+      () => octokit.rest.issues.listComments({ ...issue, per_page: 100, page }),
+      requestOptions
+    );
+
+    existingId = comments.find(comment => comment.body?.includes(COMMENT_MARKER))?.id;
+    if (comments.length < 100) {
+      break;
+    }
+  }
+
+  if (existingId !== undefined) {
+    const commentId: number = existingId;
+    await requestWithRetry(
+      () => octokit.rest.issues.updateComment({ owner: issue.owner, repo: issue.repo, comment_id: commentId, body }),
+      requestOptions
+    );
+    log.info(`Updated report comment ${existingId}`);
+  } else {
+    const { data: comment } = await requestWithRetry(
+      () => octokit.rest.issues.createComment({ ...issue, body }),
+      requestOptions
+    );
+    log.info(`Created report comment ${comment.id}`);
+  }
+}
@@ -0,0 +1,540 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as core from '@actions/core'
+import {
+  checkManualEntries,
+  getSubdirectories,
+  filterDirectoriesWithChanges,
+  groupChangedFilesByDirectory,
+  findDeletedDirectories,
+  parseManualDirectories,
+  getManualTargetDirectories
+} from './selection'
+import type { PullRequestFile } from './changes'
+import { createGroupConfig, type GroupConfig } from './config'
+import type { GroupReport } from './report'
+
+vi.mock('fs')
+vi.mock('path')
+vi.mock('@actions/core')
+
+const mockFs = vi.mocked(fs)
+const mockPath = vi.mocked(path)
+const mockCore = vi.mocked(core)
+
+describe('selection', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.cwd = vi.fn().mockReturnValue('/workspace')
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('getSubdirectories', () => {
+    it('should return list of subdirectories', () => {
+      const mockDirents = [
+        { name: 'app1', isDirectory: () => true },
+        { name: 'app2', isDirectory: () => true },
+        { name: 'file.txt', isDirectory: () => false },
+        { name: 'app3', isDirectory: () => true }
+      ]
+
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.readdirSync.mockReturnValue(mockDirents as any)
+
+      const result = getSubdirectories('/test/path')
+
+      expect(mockFs.existsSync).toHaveBeenCalledWith('/test/path')
+      expect(mockFs.readdirSync).toHaveBeenCalledWith('/test/path', { withFileTypes: true })
+      expect(result).toEqual(['app1', 'app2', 'app3'])
+    })
+
+    it('should skip .git and node_modules', () => {
+      const mockDirents = [
+        { name: '.git', isDirectory: () => true },
+        { name: 'node_modules', isDirectory: () => true },
+        { name: 'app1', isDirectory: () => true }
+      ]
+
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.readdirSync.mockReturnValue(mockDirents as any)
+
+      expect(getSubdirectories('/test/path')).toEqual(['app1'])
+    })
+
+    it('should throw error when target directory does not exist', () => {
+      mockFs.existsSync.mockReturnValue(false)
+
+      expect(() => getSubdirectories('/nonexistent/path'))
+        .toThrow('Target directory does not exist: /nonexistent/path')
+    })
+
+    it('should return empty array when no subdirectories exist', () => {
+      const mockDirents = [
+        { name: 'file1.txt', isDirectory: () => false },
+        { name: 'file2.js', isDirectory: () => false }
+      ]
+
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.readdirSync.mockReturnValue(mockDirents as any)
+
+      const result = getSubdirectories('/test/path')
+      expect(result).toEqual([])
+    })
+
+    it('should return nested directories up to the requested depth', () => {
+      const tree: Record<string, string[]> = {
+        '/services': ['team-a', 'team-b'],
+        '/services/team-a': ['api', 'web'],
+        '/services/team-b': ['worker']
+      }
+
+      mockPath.join.mockImplementation((...args) => args.join('/'))
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.readdirSync.mockImplementation(((dir: string) =>
+        (tree[dir] ?? []).map(name => ({ name, isDirectory: () => true }))) as any)
+
+      const result = getSubdirectories('/services', 2)
+
+      expect(result).toEqual(['team-a/api', 'team-a/web', 'team-b/worker'])
+    })
+  })
+
+  describe('filterDirectoriesWithChanges', () => {
+    beforeEach(() => {
+      mockPath.join.mockImplementation((...args) => args.join('/'))
+      mockPath.relative.mockImplementation((from, to) => {
+        if (from === '/workspace') {
+          return to.replace('/workspace/', '')
+        }
+        return to
+      })
+      Object.defineProperty(mockPath, 'sep', {
+        value: '/',
+        configurable: true
+      })
+    })
+
+    it('should filter directories that contain changed files', () => {
+      const subdirectories = ['app1', 'app2', 'app3']
+      const changedFiles = [
+        'src/app1/file1.ts',
+        'src/app3/file3.ts',
+        'docs/README.md'
+      ]
+      const targetParentPath = 'src'
+
+      const result = filterDirectoriesWithChanges(
+        subdirectories,
+        changedFiles,
+        targetParentPath
+      )
+
+      expect(result).toEqual(['app1', 'app3'])
+    })
+
+    it('should handle exact directory matches', () => {
+      const subdirectories = ['app1', 'app2']
+      const changedFiles = ['src/app1']
+      const targetParentPath = 'src'
+
+      const result = filterDirectoriesWithChanges(
+        subdirectories,
+        changedFiles,
+        targetParentPath
+      )
+
+      expect(result).toEqual(['app1'])
+    })
+
+    it('should return empty array when no directories have changes', () => {
+      const subdirectories = ['app1', 'app2', 'app3']
+      const changedFiles = ['docs/README.md', 'other/file.ts']
+      const targetParentPath = 'src'
+
+      const result = filterDirectoriesWithChanges(
+        subdirectories,
+        changedFiles,
+        targetParentPath
+      )
+
+      expect(result).toEqual([])
+    })
+
+    it('should handle nested directory paths correctly', () => {
+      const subdirectories = ['services', 'components']
+      const changedFiles = [
+        'src/services/auth/login.ts',
+        'src/components/ui/button.tsx'
+      ]
+      const targetParentPath = 'src'
+
+      const result = filterDirectoriesWithChanges(
+        subdirectories,
+        changedFiles,
+        targetParentPath
+      )
+
+      expect(result).toEqual(['services', 'components'])
+    })
+
+    it('should attribute each changed file to the deepest matching directory', () => {
+      const subdirectories = ['team', 'team/api', 'team/web']
+      const changedFiles = [
+        'services/team/api/src/index.ts',
+        'services/team/web/src/page.tsx'
+      ]
+
+      const result = filterDirectoriesWithChanges(
+        subdirectories,
+        changedFiles,
+        'services'
+      )
+
+      expect(result).toEqual(['team/api', 'team/web'])
+    })
+
+    it('should keep parent directories with changes outside nested units', () => {
+      const subdirectories = ['team', 'team/api']
+      const changedFiles = ['services/team/README.md']
+
+      const result = filterDirectoriesWithChanges(
+        subdirectories,
+        changedFiles,
+        'services'
+      )
+
+      expect(result).toEqual(['team'])
+    })
+
+    it('should handle empty inputs', () => {
+      expect(filterDirectoriesWithChanges([], [], 'src')).toEqual([])
+      expect(filterDirectoriesWithChanges(['app1'], [], 'src')).toEqual([])
+      expect(filterDirectoriesWithChanges([], ['file.ts'], 'src')).toEqual([])
+    })
+  })
+
+  describe('groupChangedFilesByDirectory', () => {
+    beforeEach(() => {
+      mockPath.join.mockImplementation((...args) => args.join('/'))
+      Object.defineProperty(mockPath, 'sep', {
+        value: '/',
+        configurable: true
+      })
+    })
+
+    it('should attribute changed files to their deepest directory', () => {
+      const result = groupChangedFilesByDirectory(
+        ['team', 'team/api'],
+        ['apps/team/api/index.ts', 'apps/team/README.md', 'apps/team/api/util.ts', 'docs/x.md'],
+        'apps'
+      )
+
+      expect(Object.fromEntries(result)).toEqual({
+        'team/api': ['apps/team/api/index.ts', 'apps/team/api/util.ts'],
+        team: ['apps/team/README.md']
+      })
+    })
+
+    it('should match regardless of how the parent path is spelled', () => {
+      const changedFiles = ['apps/api/index.ts', 'apps/web/index.ts']
+
+      for (const parent of ['apps', './apps/', 'apps//', 'apps\\']) {
+        expect(filterDirectoriesWithChanges(['api', 'worker'], changedFiles, parent)).toEqual(['api'])
+      }
+    })
+
+    it('should match Windows-style changed file paths', () => {
+      const result = groupChangedFilesByDirectory(['api'], ['apps\\api\\index.ts'], 'apps')
+
+      expect(Object.fromEntries(result)).toEqual({ api: ['apps\\api\\index.ts'] })
+    })
+
+    it('should match the repository root as parent', () => {
+      expect(filterDirectoriesWithChanges(['api', 'web'], ['web/index.ts'], '.')).toEqual(['web'])
+    })
+
+    it('should optionally ignore case', () => {
+      expect(filterDirectoriesWithChanges(['Api'], ['apps/api/index.ts'], 'Apps')).toEqual([])
+      expect(filterDirectoriesWithChanges(['Api'], ['apps/api/index.ts'], 'Apps', true)).toEqual(['Api'])
+    })
+  })
+
+  describe('findDeletedDirectories', () => {
+    const group: GroupConfig = {
+      name: 'default',
+      targetParentPath: 'apps',
+      depth: 1,
+      includePaths: [],
+      excludePaths: [],
+      globalPaths: [],
+      markerFiles: [],
+      ignoreRemoved: false,
+      skipHidden: false,
+      respectGitignore: false,
+      dependencySources: [],
+      caseInsensitive: false,
+      contentHash: false,
+      labelTemplate: '',
+      maxDirectories: 0,
+      maxChangedFiles: 0,
+      maxDirectoriesPercent: 0,
+      thresholdFallback: 'all',
+      sort: 'none',
+      batchSize: 0
+    }
+
+    beforeEach(() => {
+      mockPath.resolve.mockImplementation((p: string) => `/workspace/${p}`)
+      mockPath.join.mockImplementation((...args) => args.join('/'))
+      mockFs.existsSync.mockImplementation((p: any) => p === '/workspace/apps/api')
+    })
+
+    it('should report directories that lost files and no longer exist', () => {
+      const files: PullRequestFile[] = [
+        { filename: 'apps/legacy/src/index.ts', status: 'removed' },
+        { filename: 'apps/api/old.ts', status: 'removed' },
+        { filename: 'apps/new/index.ts', status: 'renamed', previous_filename: 'apps/old/index.ts' },
+        { filename: 'libs/gone/index.ts', status: 'removed' },
+        { filename: 'apps/README.md', status: 'removed' }
+      ]
+
+      expect(findDeletedDirectories(group, files)).toEqual(['legacy', 'old'])
+    })
+
+    it('should use the group depth', () => {
+      const files: PullRequestFile[] = [
+        { filename: 'apps/team/legacy/index.ts', status: 'removed' }
+      ]
+
+      expect(findDeletedDirectories({ ...group, depth: 2 }, files)).toEqual(['team/legacy'])
+    })
+
+    it('should only consider removed marker files in marker mode', () => {
+      const files: PullRequestFile[] = [
+        { filename: 'apps/team/legacy/package.json', status: 'removed' },
+        { filename: 'apps/team/other/src/index.ts', status: 'removed' }
+      ]
+
+      expect(findDeletedDirectories({ ...group, markerFiles: ['package.json'] }, files)).toEqual(['team/legacy'])
+    })
+
+    it('should normalize the parent path and optionally ignore case', () => {
+      const files: PullRequestFile[] = [
+        { filename: 'Apps/Legacy/index.ts', status: 'removed' }
+      ]
+
+      expect(findDeletedDirectories({ ...group, targetParentPath: './apps/' }, files)).toEqual([])
+      expect(findDeletedDirectories({ ...group, targetParentPath: './apps/', caseInsensitive: true }, files))
+        .toEqual(['Legacy'])
+    })
+  })
+
+  describe('parseManualDirectories', () => {
+    it('should parse comma-separated directories correctly', () => {
+      const input = 'alpha,beta,gamma,delta'
+      const result = parseManualDirectories(input)
+      expect(result).toEqual(['alpha', 'beta', 'gamma', 'delta'])
+    })
+
+    it('should handle directories with spaces around commas', () => {
+      const input = 'alpha, beta,gamma , delta'
+      const result = parseManualDirectories(input)
+      expect(result).toEqual(['alpha', 'beta', 'gamma', 'delta'])
+    })
+
+    it('should handle empty input', () => {
+      expect(parseManualDirectories('')).toEqual([])
+      expect(parseManualDirectories('   ')).toEqual([])
+    })
+
+    it('should filter out empty directory names', () => {
+      const input = 'alpha,,beta, ,gamma'
+      const result = parseManualDirectories(input)
+      expect(result).toEqual(['alpha', 'beta', 'gamma'])
+    })
+
+    it('should handle single directory', () => {
+      const input = 'alpha'
+      const result = parseManualDirectories(input)
+      expect(result).toEqual(['alpha'])
+    })
+
+    it('should accept newline-separated directories', () => {
+      expect(parseManualDirectories('alpha\n  beta\n\ngamma,delta\n')).toEqual(['alpha', 'beta', 'gamma', 'delta'])
+    })
+  })
+
+  describe('checkManualEntries', () => {
+    const createReport = (name: string, subdirectories: string[]): GroupReport => ({
+      group: createGroupConfig({ name, targetParentPath: name }),
+      result: {
+        directories: [],
+        reasons: new Map(),
+        globalTriggers: [],
+        changedFiles: new Map(),
+        fileChanges: new Map(),
+        deletedDirectories: [],
+        subdirectories,
+        hashes: new Map(),
+        thresholdsExceeded: []
+      }
+    })
+    const reports = [createReport('apps', ['api', 'web']), createReport('libs', ['core'])]
+
+    it('should accept entries that match a directory in any group', () => {
+      expect(() => checkManualEntries(reports, { mode: 'manual', directories: ['api', 'core', '!web'], strict: true }))
+        .not.toThrow()
+      expect(mockCore.warning).not.toHaveBeenCalled()
+    })
+
+    it('should warn about entries that match no directory', () => {
+      checkManualEntries(reports, { mode: 'manual', directories: ['api', 'omega'], strict: false })
+
+      expect(mockCore.warning).toHaveBeenCalledWith('manual-directories entry omega matches no directory')
+    })
+
+    it('should fail on entries that match no directory in strict mode', () => {
+      expect(() => checkManualEntries(reports, { mode: 'manual', directories: ['api', 'omega'], strict: true }))
+        .toThrow('manual-directories entry omega matches no directory')
+    })
+  })
+
+  describe('getManualTargetDirectories', () => {
+    it('should return all available directories when manual list is empty', () => {
+      const manualDirectories: string[] = []
+      const availableDirectories = ['alpha', 'beta', 'gamma', 'delta']
+      const result = getManualTargetDirectories(manualDirectories, availableDirectories)
+      expect(result).toEqual(['alpha', 'beta', 'gamma', 'delta'])
+    })
+
+    it('should filter manual directories by available directories', () => {
+      const manualDirectories = ['alpha', 'beta', 'gamma', 'delta']
+      const availableDirectories = ['alpha', 'beta', 'other']
+      const result = getManualTargetDirectories(manualDirectories, availableDirectories)
+      expect(result).toEqual(['alpha', 'beta'])
+    })
+
+    it('should handle no matching directories', () => {
+      const manualDirectories = ['nonexistent1', 'nonexistent2']
+      const availableDirectories = ['alpha', 'beta']
+      const result = getManualTargetDirectories(manualDirectories, availableDirectories)
+      expect(result).toEqual([])
+    })
+
+    it('should handle empty available directories', () => {
+      const manualDirectories = ['alpha', 'beta']
+      const availableDirectories: string[] = []
+      const result = getManualTargetDirectories(manualDirectories, availableDirectories)
+      expect(result).toEqual([])
+    })
+
+    it('should expand glob patterns', () => {
+      const availableDirectories = ['api-users', 'api-orders', 'web', 'team/api-billing']
+      expect(getManualTargetDirectories(['api-*'], availableDirectories)).toEqual(['api-users', 'api-orders'])
+      expect(getManualTargetDirectories(['team/*', 'web'], availableDirectories)).toEqual(['team/api-billing', 'web'])
+    })
+
+    it('should normalize names and optionally ignore case', () => {
+      const availableDirectories = ['api', 'team/web']
+      expect(getManualTargetDirectories(['./api/', 'team//web'], availableDirectories)).toEqual(['api', 'team/web'])
+      expect(getManualTargetDirectories(['API', 'Team/*'], availableDirectories, true)).toEqual(['api', 'team/web'])
+    })
+
+    it('should expand regular expressions', () => {
+      const availableDirectories = ['svc-auth', 'svc-billing', 'web', 'legacy-svc']
+      expect(getManualTargetDirectories(['/^svc-/'], availableDirectories)).toEqual(['svc-auth', 'svc-billing'])
+      expect(getManualTargetDirectories(['/^WEB$/i'], availableDirectories)).toEqual(['web'])
+    })
+
+    it('should match every directory with global or sticky regular expressions', () => {
+      const availableDirectories = ['svc-a', 'svc-b', 'svc-c']
+      expect(getManualTargetDirectories(['/svc/g'], availableDirectories)).toEqual(availableDirectories)
+      expect(getManualTargetDirectories(['/svc/y'], availableDirectories)).toEqual(availableDirectories)
+    })
+
+    it('should reject invalid regular expressions', () => {
+      expect(() => getManualTargetDirectories(['/svc-(/'], ['svc-auth']))
+        .toThrow('Invalid manual-directories pattern /svc-(/')
+    })
+
+    it('should remove directories matched by negated entries', () => {
+      const availableDirectories = ['api', 'legacy-api', 'legacy-web', 'web']
+      expect(getManualTargetDirectories(['*', '!legacy-*'], availableDirectories)).toEqual(['api', 'web'])
+      expect(getManualTargetDirectories(['!legacy-*'], availableDirectories)).toEqual(['api', 'web'])
+      expect(getManualTargetDirectories(['*', '!/^legacy-/', 'legacy-web'], availableDirectories)).toEqual(['api', 'web', 'legacy-web'])
+    })
+  })
+
+  describe('Integration scenarios', () => {
+    beforeEach(() => {
+      mockPath.join.mockImplementation((...args) => args.join('/'))
+      mockPath.relative.mockImplementation((from, to) => {
+        if (from === '/workspace') {
+          return to.replace('/workspace/', '')
+        }
+        return to
+      })
+      Object.defineProperty(mockPath, 'sep', {
+        value: '/',
+        configurable: true
+      })
+    })
+
+    it('should handle complex directory structure with nested changes', async () => {
+      const subdirectories = ['frontend', 'backend', 'shared']
+      const changedFiles = [
+        'apps/frontend/src/components/Button.tsx',
+        'apps/shared/utils/helpers.ts',
+        'docs/README.md'
+      ]
+
+      const result = filterDirectoriesWithChanges(
+        subdirectories,
+        changedFiles,
+        'apps'
+      )
+
+      expect(result).toEqual(['frontend', 'shared'])
+    })
+
+    it('should handle Windows-style paths', () => {
+      Object.defineProperty(mockPath, 'sep', {
+        value: '\\',
+        configurable: true
+      })
+      mockPath.join.mockImplementation((...args) => args.join('\\'))
+      mockPath.relative.mockImplementation((from, to) => to)
+
+      const subdirectories = ['app1', 'app2']
+      const changedFiles = ['src\\app1\\file.ts']
+
+      const result = filterDirectoriesWithChanges(
+        subdirectories,
+        changedFiles,
+        'src'
+      )
+
+      expect(result).toEqual(['app1'])
+    })
+
+    it('should handle special characters in directory names', () => {
+      const subdirectories = ['app-1', 'app_2', 'app.test']
+      const changedFiles = [
+        'src/app-1/file.ts',
+        'src/app.test/spec.js'
+      ]
+
+      const result = filterDirectoriesWithChanges(
+        subdirectories,
+        changedFiles,
+        'src'
+      )
+
+      expect(result).toEqual(['app-1', 'app.test'])
+    })
+  })
+})
@@ -0,0 +1,558 @@
+import * as fs from "fs";
+import * as path from "path";
+import { compilePattern, filterPaths, type PathPattern } from "./matcher";
+import {
+  childOptions,
+  findMarkerDirectories,
+  loadGitignorePatterns,
+  shouldSkipDirectory,
+  type DiscoveryOptions,
+} from "./discovery";
+import { buildDependencyGraph, findDependentDirectories, sortTopologically, type DependencyGraph } from "./dependencies";
+import { isPathInside, normalizeRepoPath, pathsEqual, toRepoPath, toRepoRelativePath } from "./paths";
+import { getChangedPaths, type Changes, type PullRequestFile } from "./changes";
+import { listTrackedFiles } from "./git";
+import { hashFiles, type HashCache } from "./hash";
+import { log } from "./log";
+import type { GroupConfig } from "./config";
+import type { GroupReport } from "./report";
+
+export interface SelectionReason {
+  reason: "changed" | "dependency" | "global" | "manual" | "all" | "fallback" | "threshold";
+  // Changed dependency directories for "dependency" selections, or the
+  // triggering files for "global" selections
+  via?: string[];
+}
+
+export function parseManualDirectories(input: string): string[] {
+  if (!input.trim()) {
+    return [];
+  }
+  
+  return input
+    .split(/[,\n]/)
+    .map(dir => dir.trim())
+    .filter(dir => dir.length > 0);
+}
+
+/**
+ * Compiles a manual-directories entry into a matcher for directory names.
+ * Entries are exact names, globs such as `api-*`, or regular expressions
+ * written as `/^svc-/`.
+ */
+function compileManualEntry(entry: string, ignoreCase: boolean): (dir: string) => boolean {
+  const regexMatch: RegExpMatchArray | null = entry.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    let regex: RegExp;
+    try {
+      // "g" and "y" make test() resume from the previous match's lastIndex
+      regex = new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ""));
+    } catch (error: unknown) {
+      const errorMessage: string = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid manual-directories pattern ${entry}: ${errorMessage}`);
+    }
+    return (dir: string) => regex.test(dir);
+  }
+
+  if (/[*?[]/.test(entry)) {
+    // Anchor the glob so it matches the whole directory name
+    const pattern: PathPattern | null = compilePattern(`/${normalizeRepoPath(entry)}`, ignoreCase);
+    return (dir: string) => pattern !== null && pattern.regex.test(dir);
+  }
+
+  const name: string = normalizeRepoPath(entry);
+  return (dir: string) => pathsEqual(dir, name, ignoreCase);
+}
+
+/**
+ * Resolves manual-directories entries against the available directories.
+ * Entries apply in order: a `!` prefix removes matching directories, and a
+ * list made only of negations starts from every directory. Entries that
+ * match nothing are reported by checkManualEntries across all groups.
+ */
+export function getManualTargetDirectories(
+  manualDirectories: string[],
+  availableDirectories: string[],
+  ignoreCase: boolean = false
+): string[] {
+  if (manualDirectories.length === 0) {
+    return availableDirectories;
+  }
+
+  const onlyNegations: boolean = manualDirectories.every((entry: string) => entry.startsWith("!"));
+  let selected: string[] = onlyNegations ? [...availableDirectories] : [];
+
+  for (const entry of manualDirectories) {
+    const negated: boolean = entry.startsWith("!");
+    const body: string = negated ? entry.slice(1).trim() : entry;
+    const matches = compileManualEntry(body, ignoreCase);
+    const matched: string[] = availableDirectories.filter(matches);
+
+    selected = negated
+      ? selected.filter((dir: string) => !matches(dir))
+      : [...selected, ...matched.filter((dir: string) => !selected.includes(dir))];
+  }
+
+  return selected;
+}
+
+/**
+ * Warns about manual-directories entries that match no directory in any
+ * group, or fails with `strict`. An entry only has to match in one group.
+ */
+export function checkManualEntries(reports: GroupReport[], changes: Changes): void {
+  if (changes.mode !== "manual") {
+    return;
+  }
+
+  for (const entry of changes.directories) {
+    const body: string = entry.startsWith("!") ? entry.slice(1).trim() : entry;
+    const matched: boolean = reports.some(({ group, result }: GroupReport) =>
+      result.subdirectories.some(compileManualEntry(body, group.caseInsensitive))
+    );
+
+    if (!matched) {
+      const message: string = `manual-directories entry ${entry} matches no directory`;
+      if (changes.strict) {
+        throw new Error(message);
+      }
+      log.warning(message);
+    }
+  }
+}
+
+export function getSubdirectories(
+  targetPath: string,
+  depth: number = 1,
+  options: DiscoveryOptions = {}
+): string[] {
+  if (!fs.existsSync(targetPath)) {
+    throw new Error(`Target directory does not exist: ${targetPath}`);
+  }
+
+  const names: string[] = fs.readdirSync(targetPath, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory())
+    .map(dirent => dirent.name)
+    .filter(name => !shouldSkipDirectory(name, options));
+
+  if (depth <= 1) {
+    return names;
+  }
+
+  return names.flatMap((name: string) =>
+    getSubdirectories(path.join(targetPath, name), depth - 1, childOptions(options, name))
+      .map((child: string) => `${name}/${child}`)
+  );
+}
+
+export function groupChangedFilesByDirectory(
+  subdirectories: string[],
+  changedFiles: string[],
+  targetParentPath: string,
+  ignoreCase: boolean = false
+): Map<string, string[]> {
+  const filesByDir: Map<string, string[]> = new Map();
+  const deepestFirst: string[] = [...subdirectories].sort((a, b) => b.length - a.length);
+
+  for (const file of changedFiles) {
+    const owner: string | undefined = deepestFirst.find((dir: string) =>
+      isPathInside(normalizeRepoPath(file), toRepoPath(targetParentPath, dir), ignoreCase)
+    );
+
+    if (owner !== undefined) {
+      filesByDir.set(owner, [...(filesByDir.get(owner) ?? []), file]);
+    }
+  }
+
+  return filesByDir;
+}
+
+export function filterDirectoriesWithChanges(
+  subdirectories: string[],
+  changedFiles: string[],
+  targetParentPath: string,
+  ignoreCase: boolean = false
+): string[] {
+  const filesByDir: Map<string, string[]> = groupChangedFilesByDirectory(
+    subdirectories,
+    changedFiles,
+    targetParentPath,
+    ignoreCase
+  );
+
+  return subdirectories.filter((dir: string) => filesByDir.has(dir));
+}
+
+export interface GroupResult {
+  directories: string[];
+  reasons: Map<string, SelectionReason>;
+  globalTriggers: string[];
+  // Changed files attributed to each directory, after include/exclude filtering
+  changedFiles: Map<string, string[]>;
+  // The same files with their status and line counts
+  fileChanges: Map<string, PullRequestFile[]>;
+  deletedDirectories: string[];
+  // Every directory that was considered, selected or not
+  subdirectories: string[];
+  // Content hash of every directory, with content-hash
+  hashes: Map<string, string>;
+  // Why the group fell back to a full run, one message per crossed threshold
+  thresholdsExceeded: string[];
+}
+
+/**
+ * Returns the group's target-parent-path in normalized repository-relative
+ * form, which is what changed files are compared against.
+ */
+export function getParentRepoPath(group: GroupConfig): string {
+  return toRepoRelativePath(group.targetParentPath, process.cwd());
+}
+
+export function discoverGroupDirectories(group: GroupConfig): string[] {
+  const targetPath: string = path.resolve(group.targetParentPath);
+  if (!fs.existsSync(targetPath)) {
+    throw new Error(
+      `Target directory does not exist: ${targetPath}; check target-parent-path ` +
+      `("${group.targetParentPath}") and that the repository is checked out before this step`
+    );
+  }
+
+  const discoveryOptions: DiscoveryOptions = { skipHidden: group.skipHidden };
+  if (group.respectGitignore) {
+    discoveryOptions.ignorePatterns = loadGitignorePatterns(process.cwd());
+    discoveryOptions.basePath = getParentRepoPath(group);
+  }
+
+  const subdirectories: string[] = group.markerFiles.length > 0
+    ? findMarkerDirectories(targetPath, group.markerFiles, discoveryOptions)
+    : getSubdirectories(targetPath, group.depth, discoveryOptions);
+  log.debug(`Found ${subdirectories.length} subdirectories: ${JSON.stringify(subdirectories)}`);
+
+  return subdirectories;
+}
+
+/**
+ * Returns directories below the group's parent path that lost files in the
+ * changes and no longer exist on disk. With marker files only directories
+ * whose marker was removed are considered; otherwise the directory at the
+ * group's depth.
+ */
+export function findDeletedDirectories(group: GroupConfig, files: PullRequestFile[]): string[] {
+  const parentPrefix: string = getParentRepoPath(group);
+  const candidates: Set<string> = new Set();
+
+  for (const file of files) {
+    const removedFile: string | undefined = file.status === "removed" ? file.filename : file.previous_filename;
+    if (!removedFile) {
+      continue;
+    }
+
+    const removedPath: string = normalizeRepoPath(removedFile);
+    if (removedPath === parentPrefix || !isPathInside(removedPath, parentPrefix, group.caseInsensitive)) {
+      continue;
+    }
+
+    const relativePath: string = parentPrefix ? removedPath.slice(parentPrefix.length + 1) : removedPath;
+    const segments: string[] = relativePath.split("/");
+    if (group.markerFiles.length > 0) {
+      const fileName: string = segments[segments.length - 1];
+      const isMarker: boolean = group.markerFiles.some((marker: string) => pathsEqual(marker, fileName, group.caseInsensitive));
+      if (segments.length > 1 && isMarker) {
+        candidates.add(segments.slice(0, -1).join("/"));
+      }
+    } else if (segments.length > group.depth) {
+      candidates.add(segments.slice(0, group.depth).join("/"));
+    }
+  }
+
+  const targetPath: string = path.resolve(group.targetParentPath);
+  return [...candidates].filter((dir: string) => !fs.existsSync(path.join(targetPath, dir)));
+}
+
+/**
+ * Maps the changed paths attributed to each directory back to their files.
+ * A file renamed across directories is listed under both.
+ */
+export function getFileChangesByDirectory(
+  changedFilesByDir: Map<string, string[]>,
+  files: PullRequestFile[]
+): Map<string, PullRequestFile[]> {
+  const filesByPath: Map<string, PullRequestFile> = new Map();
+  for (const file of files) {
+    filesByPath.set(normalizeRepoPath(file.filename), file);
+    if (file.previous_filename) {
+      filesByPath.set(normalizeRepoPath(file.previous_filename), file);
+    }
+  }
+
+  const fileChanges: Map<string, PullRequestFile[]> = new Map();
+  for (const [dir, paths] of changedFilesByDir) {
+    const dirFiles: Set<PullRequestFile> = new Set();
+    for (const changedPath of paths) {
+      const file: PullRequestFile | undefined = filesByPath.get(changedPath);
+      if (file) {
+        dirFiles.add(file);
+      }
+    }
+    fileChanges.set(dir, [...dirFiles]);
+  }
+
+  return fileChanges;
+}
+
+/**
+ * Hashes the tracked files of each directory that pass include-paths and
+ * exclude-paths. Files are attributed to the deepest directory, as changed
+ * files are.
+ */
+export function getContentHashes(group: GroupConfig, subdirectories: string[]): Map<string, string> {
+  const parentPath: string = getParentRepoPath(group);
+  const trackedFiles: string[] = listTrackedFiles(parentPath).map(normalizeRepoPath);
+  const files: string[] = filterPaths(trackedFiles, group.includePaths, group.excludePaths, group.caseInsensitive);
+  const filesByDir: Map<string, string[]> = groupChangedFilesByDirectory(
+    subdirectories,
+    files,
+    parentPath,
+    group.caseInsensitive
+  );
+
+  return new Map(subdirectories.map((dir: string) => [
+    dir,
+    hashFiles(filesByDir.get(dir) ?? [], toRepoPath(parentPath, dir)),
+  ]));
+}
+
+/**
+ * Deselects directories picked for a direct change, or because there was no
+ * base commit, whose contents hash the same as in the cache. Directories
+ * selected for other reasons are kept.
+ */
+function skipUnchangedHashes(
+  group: GroupConfig,
+  directories: string[],
+  reasons: Map<string, SelectionReason>,
+  hashes: Map<string, string>,
+  hashCache: HashCache
+): string[] {
+  const parentPath: string = getParentRepoPath(group);
+
+  return directories.filter((dir: string) => {
+    const reason: string | undefined = reasons.get(dir)?.reason;
+    if ((reason !== "changed" && reason !== "all") || hashCache[toRepoPath(parentPath, dir)] !== hashes.get(dir)) {
+      return true;
+    }
+
+    reasons.delete(dir);
+    log.info(`Skipping ${dir}: contents match the hash from the previous run`);
+    return false;
+  });
+}
+
+/**
+ * Returns a message for each of the group's thresholds the selection
+ * crosses.
+ */
+export function getExceededThresholds(
+  group: GroupConfig,
+  selectedCount: number,
+  changedFileCount: number,
+  directoryCount: number
+): string[] {
+  const exceeded: string[] = [];
+  const percent: number = directoryCount > 0 ? (selectedCount / directoryCount) * 100 : 0;
+
+  if (group.maxDirectories > 0 && selectedCount > group.maxDirectories) {
+    exceeded.push(`${selectedCount} selected directories exceed max-directories (${group.maxDirectories})`);
+  }
+  if (group.maxChangedFiles > 0 && changedFileCount > group.maxChangedFiles) {
+    exceeded.push(`${changedFileCount} changed files exceed max-changed-files (${group.maxChangedFiles})`);
+  }
+  if (group.maxDirectoriesPercent > 0 && percent > group.maxDirectoriesPercent) {
+    exceeded.push(
+      `${Math.round(percent)}% of directories selected exceeds max-directories-percent (${group.maxDirectoriesPercent}%)`
+    );
+  }
+
+  return exceeded;
+}
+
+function hasDependencies(group: GroupConfig): boolean {
+  return group.dependencySources.length > 0 || Boolean(group.dependencyMapFile);
+}
+
+function getDependencyGraph(group: GroupConfig, subdirectories: string[]): DependencyGraph {
+  const parentPath: string = getParentRepoPath(group);
+
+  return buildDependencyGraph(process.cwd(), {
+    sources: group.dependencySources,
+    mapFile: group.dependencyMapFile,
+    units: subdirectories.map((dir: string) => toRepoPath(parentPath, dir)),
+  });
+}
+
+/**
+ * Orders the selected directories by the group's sort option. Directories
+ * that tie are ordered by name.
+ */
+export function sortDirectories(
+  group: GroupConfig,
+  directories: string[],
+  changedFiles: Map<string, string[]>,
+  getGraph: () => DependencyGraph
+): string[] {
+  const byName: string[] = [...directories].sort();
+  const countChanges = (dir: string): number => changedFiles.get(dir)?.length ?? 0;
+
+  switch (group.sort) {
+    case "none":
+      return directories;
+    case "alphabetical":
+      return byName;
+    case "changed-files":
+      return byName.sort((a: string, b: string) => countChanges(b) - countChanges(a));
+    case "topological": {
+      if (!hasDependencies(group)) {
+        log.warning("sort is topological but no dependency-sources or dependency-map is set; sorting by name");
+      }
+
+      const parentPath: string = getParentRepoPath(group);
+      const dirsByUnit: Map<string, string> = new Map(byName.map((dir: string) => [toRepoPath(parentPath, dir), dir]));
+      return sortTopologically([...dirsByUnit.keys()], getGraph()).map((unit: string) => dirsByUnit.get(unit)!);
+    }
+  }
+}
+
+export function selectGroupDirectories(group: GroupConfig, changes: Changes, hashCache?: HashCache): GroupResult {
+  const subdirectories: string[] = discoverGroupDirectories(group);
+  const parentPath: string = getParentRepoPath(group);
+  const reasons: Map<string, SelectionReason> = new Map();
+  let globalTriggers: string[] = [];
+  let changedFilesByDir: Map<string, string[]> = new Map();
+  let fileChanges: Map<string, PullRequestFile[]> = new Map();
+  let deletedDirectories: string[] = [];
+  let graph: DependencyGraph | undefined;
+  let result: string[];
+
+  if (changes.mode === "manual") {
+    result = getManualTargetDirectories(
+      changes.directories,
+      subdirectories,
+      group.caseInsensitive
+    );
+    result.forEach((dir: string) => reasons.set(dir, { reason: "manual" }));
+    log.info(`Manual target directories: ${JSON.stringify(result)}`);
+  } else if (changes.mode === "fallback") {
+    result = changes.selectAll ? subdirectories : [];
+    result.forEach((dir: string) => reasons.set(dir, { reason: "fallback" }));
+    log.info(`Selecting ${changes.selectAll ? "all" : "no"} directories after the error: ${JSON.stringify(result)}`);
+  } else if (changes.files === null) {
+    result = subdirectories;
+    result.forEach((dir: string) => reasons.set(dir, { reason: "all" }));
+    log.info(`No base commit to compare against; selecting all directories: ${JSON.stringify(result)}`);
+  } else {
+    deletedDirectories = findDeletedDirectories(group, changes.files);
+    if (deletedDirectories.length > 0) {
+      log.info(`Directories deleted by the changes: ${JSON.stringify(deletedDirectories)}`);
+    }
+
+    const files: PullRequestFile[] = group.ignoreRemoved
+      ? changes.files.filter((file: PullRequestFile) => file.status !== "removed")
+      : changes.files;
+    const changedFiles: string[] = getChangedPaths(files).map(normalizeRepoPath);
+    const relevantFiles: string[] = filterPaths(
+      changedFiles,
+      group.includePaths,
+      group.excludePaths,
+      group.caseInsensitive
+    );
+    if (relevantFiles.length !== changedFiles.length) {
+      log.info(`Ignoring ${changedFiles.length - relevantFiles.length} changed files excluded by include-paths/exclude-paths`);
+    }
+
+    changedFilesByDir = groupChangedFilesByDirectory(
+      subdirectories,
+      relevantFiles,
+      parentPath,
+      group.caseInsensitive
+    );
+    fileChanges = getFileChangesByDirectory(changedFilesByDir, files);
+    const changedDirs: string[] = subdirectories.filter((dir: string) => changedFilesByDir.has(dir));
+    changedDirs.forEach((dir: string) => reasons.set(dir, { reason: "changed" }));
+    log.info(`Directories with changes: ${JSON.stringify(changedDirs)}`);
+
+    if (hasDependencies(group)) {
+      graph = getDependencyGraph(group, subdirectories);
+      const dependents: Map<string, string[]> = findDependentDirectories(
+        subdirectories,
+        relevantFiles,
+        parentPath,
+        graph,
+        group.caseInsensitive
+      );
+
+      for (const [dir, via] of dependents) {
+        if (!reasons.has(dir)) {
+          reasons.set(dir, { reason: "dependency", via });
+          log.info(`Including ${dir} because its dependencies changed: ${via.join(", ")}`);
+        }
+      }
+    }
+
+    if (group.globalPaths.length > 0) {
+      globalTriggers = filterPaths(changedFiles, group.globalPaths, [], group.caseInsensitive);
+    }
+
+    if (globalTriggers.length > 0) {
+      log.info(`Global paths changed, selecting all directories: ${globalTriggers.join(", ")}`);
+      subdirectories
+        .filter((dir: string) => !reasons.has(dir))
+        .forEach((dir: string) => reasons.set(dir, { reason: "global", via: globalTriggers }));
+    }
+
+    result = subdirectories.filter((dir: string) => reasons.has(dir));
+  }
+
+  let hashes: Map<string, string> = new Map();
+  if (group.contentHash) {
+    hashes = getContentHashes(group, subdirectories);
+    log.debug(`Content hashes: ${JSON.stringify(Object.fromEntries(hashes))}`);
+    if (hashCache) {
+      result = skipUnchangedHashes(group, result, reasons, hashes, hashCache);
+    }
+  }
+
+  let thresholdsExceeded: string[] = [];
+  if (changes.mode === "changes" && changes.files !== null) {
+    const changedFileCount: number = [...changedFilesByDir.values()].flat().length;
+    thresholdsExceeded = getExceededThresholds(group, result.length, changedFileCount, subdirectories.length);
+  }
+
+  if (thresholdsExceeded.length > 0) {
+    const fallback: string = group.thresholdFallback === "all" ? "selecting all directories" : "selecting none for a full run";
+    log.info(`${thresholdsExceeded.join("; ")}; ${fallback}`);
+
+    if (group.thresholdFallback === "all") {
+      subdirectories
+        .filter((dir: string) => !reasons.has(dir))
+        .forEach((dir: string) => reasons.set(dir, { reason: "threshold" }));
+      result = subdirectories;
+    } else {
+      reasons.clear();
+      result = [];
+    }
+  }
+
+  result = sortDirectories(group, result, changedFilesByDir, () => graph ?? getDependencyGraph(group, subdirectories));
+
+  return {
+    directories: result,
+    reasons,
+    globalTriggers,
+    changedFiles: changedFilesByDir,
+    fileChanges,
+    deletedDirectories,
+    subdirectories,
+    hashes,
+    thresholdsExceeded,
+  };
+}
@@ -0,0 +1,28 @@
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as path from 'path'
+
+// Fixtures shared by the tests that work on real directories and repositories
+
+export function writeFile(root: string, file: string, content: string = ''): void {
+  const fullPath = path.join(root, file)
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true })
+  fs.writeFileSync(fullPath, content)
+}
+
+export function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8' }).trim()
+}
+
+export function initRepository(cwd: string): void {
+  git(cwd, 'init', '--quiet')
+  git(cwd, 'config', 'user.email', 'test@example.com')
+  git(cwd, 'config', 'user.name', 'test')
+  git(cwd, 'config', 'commit.gpgsign', 'false')
+}
+
+export function commitAll(cwd: string, message: string): string {
+  git(cwd, 'add', '-A')
+  git(cwd, 'commit', '--quiet', '-m', message)
+  return git(cwd, 'rev-parse', 'HEAD')
+}
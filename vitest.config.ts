@@ -14,6 +14,7 @@ export default defineConfig({
         'node_modules/',
         'dist/',
         '**/*.test.ts',
+        'src/test-helpers.ts',
         '**/*.config.ts'
       ]
     }